@@ -1,37 +1,19 @@
 import type { NextConfig } from "next";
+import { MEDIA_HOSTS } from "./src/lib/media-hosts";
 
 const nextConfig: NextConfig = {
+	serverExternalPackages: ["ffmpeg-static"],
 	env: {
 		NEXT_PUBLIC_APP_URL:
 			process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
 	},
 	images: {
-		remotePatterns: [
-			{
-				protocol: "https",
-				hostname: "i.instagram.com",
-				port: "",
-				pathname: "/**",
-			},
-			{
-				protocol: "https",
-				hostname: "**.fbcdn.net",
-				port: "",
-				pathname: "/**",
-			},
-			{
-				protocol: "https",
-				hostname: "scontent.cdninstagram.com",
-				port: "",
-				pathname: "/**",
-			},
-			{
-				protocol: "https",
-				hostname: "scontent-*.fna.fbcdn.net",
-				port: "",
-				pathname: "/**",
-			},
-		],
+		remotePatterns: MEDIA_HOSTS.map((hostname) => ({
+			protocol: "https" as const,
+			hostname,
+			port: "",
+			pathname: "/**",
+		})),
 	},
 };
 
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { safeFetch } from "@/lib/safe-fetch";
+
+const IMAGE_LIMITS = { contentTypes: ["image/"], maxBytes: 10 * 1024 * 1024 };
 
 export async function GET(request: NextRequest) {
 	try {
 		const url = request.nextUrl.searchParams.get("url");
 		if (!url) {
-			return new NextResponse("Missing URL parameter", { status: 400 });
+			return errorResponse("INVALID_URL", "Missing URL parameter");
 		}
 
-		const imageResponse = await fetch(url, {
+		const imageResponse = await safeFetch(url, {
 			headers: {
 				"User-Agent":
 					"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
@@ -15,10 +20,11 @@ export async function GET(request: NextRequest) {
 				"Accept-Language": "en-US,en;q=0.5",
 				"Referer": "https://www.instagram.com/",
 			},
-		});
+			signal: request.signal,
+		}, IMAGE_LIMITS);
 
 		if (!imageResponse.ok) {
-			return new NextResponse("Failed to fetch image", { status: imageResponse.status });
+			return errorResponse("UPSTREAM_HTTP", `Failed to fetch image (status ${imageResponse.status})`);
 		}
 
 		const contentType = imageResponse.headers.get("content-type");
@@ -32,6 +38,9 @@ export async function GET(request: NextRequest) {
 		});
 	} catch (error) {
 		console.error("Image proxy error:", error);
-		return new NextResponse("Internal Server Error", { status: 500 });
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		return errorResponse("INTERNAL", "Failed to fetch image");
 	}
 }
@@ -0,0 +1,8 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { openApiDocument } from "@/lib/openapi";
+
+export function GET(request: NextRequest) {
+	return NextResponse.json(openApiDocument(request.nextUrl.origin), {
+		headers: { "Access-Control-Allow-Origin": "*" },
+	});
+}
@@ -1,211 +1,53 @@
-import { type NextRequest, NextResponse } from "next/server";
-import ytdl from "@distube/ytdl-core";
-
-// Generate safe filename for downloads
-function generateFilename(title: string, extension: string): string {
-	const safeTitle = title
-		.replace(/[^a-z0-9]/gi, "-")
-		.replace(/-+/g, "-")
-		.toLowerCase()
-		.slice(0, 40);
-	return `attachment; filename="${safeTitle}-${Date.now()}${extension}"`;
-}
+import type { NextRequest } from "next/server";
+import type { ProxyErrorBody } from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { openProxyStream, signedParams } from "@/lib/proxy";
+import { clientIdentity, consume, meterBytes, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit";
 
 export async function GET(request: NextRequest) {
 	try {
-		const searchParams = request.nextUrl.searchParams;
-		const url = searchParams.get("url");
-		const type = searchParams.get("type");
-		const quality = searchParams.get("quality");
-		const mediaUrl = searchParams.get("media_url");
-
-		if (!url || !type) {
-			return NextResponse.json(
-				{ error: "Missing URL or type" },
-				{ status: 400 }
-			);
+		// Refuse new downloads once the client's bandwidth budget is spent
+		const identity = clientIdentity(request.headers);
+		const quota = await consume(identity, "bytes", 0);
+		if (!quota.allowed) {
+			return rateLimitResponse(quota);
 		}
 
-		switch (type) {
-			case "youtube": {
-				try {
-					if (!ytdl.validateURL(url)) {
-						throw new Error("Invalid YouTube URL");
-					}
-			
-					// Add agent options to bypass bot detection
-					const agent = ytdl.createAgent(undefined, {
-						localAddress: undefined,
-					});
-			
-					const info = await ytdl.getInfo(url, {
-						agent,
-						requestOptions: {
-							headers: {
-								'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-								'Accept-Language': 'en-US,en;q=0.9',
-							},
-						},
-					});
-					const title = info.videoDetails.title;
-
-					// Get formats with video and audio
-					let formats = ytdl.filterFormats(info.formats, "videoandaudio");
-					if (formats.length === 0) {
-						formats = info.formats.filter((f) => f.hasVideo);
-					}
-
-					if (formats.length === 0) {
-						throw new Error("No suitable format found");
-					}
-
-					// Sort by quality
-					formats.sort((a, b) => (b.height || 0) - (a.height || 0));
-
-					// Find requested quality or use best
-					let selectedFormat = quality
-						? formats.find((f) => f.itag === parseInt(quality))
-						: formats[0];
-
-					if (!selectedFormat) {
-						selectedFormat = formats[0];
-					}
-
-					const videoStream = ytdl.downloadFromInfo(info, {
-						format: selectedFormat,
-					});
-
-					return new NextResponse(
-						videoStream as unknown as ReadableStream,
-						{
-							headers: {
-								"Content-Type": "video/mp4",
-								"Content-Disposition": generateFilename(title, ".mp4"),
-								"Cache-Control": "no-cache",
-							},
-						}
-					);
-				} catch (error) {
-					console.error("YouTube download error:", error);
-					return NextResponse.json(
-						{
-							error:
-								error instanceof Error
-									? error.message
-									: "Failed to download YouTube video",
-						},
-						{ status: 500 }
-					);
-				}
-			}
-
-			case "reel":
-			case "post":
-			case "profile": {
-				const finalMediaUrl = mediaUrl;
-
-				if (!finalMediaUrl) {
-					return NextResponse.json(
-						{ error: "Missing media URL" },
-						{ status: 400 }
-					);
-				}
-
-				const isVideo = finalMediaUrl.includes(".mp4");
-				const contentType = isVideo ? "video/mp4" : "image/jpeg";
-				const extension = isVideo ? ".mp4" : ".jpg";
-
-				try {
-					const response = await fetch(finalMediaUrl, {
-						headers: {
-							"User-Agent":
-								"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-							Referer: "https://www.instagram.com/",
-						},
-					});
-
-					if (!response.ok) {
-						throw new Error(`HTTP error! status: ${response.status}`);
-					}
-
-					return new NextResponse(response.body as ReadableStream, {
-						headers: {
-							"Content-Type": contentType,
-							"Content-Disposition": generateFilename(
-								`instagram-${type}`,
-								extension
-							),
-						},
-					});
-				} catch (error) {
-					console.error(`Instagram ${type} download error:`, error);
-					return NextResponse.json(
-						{ error: `Failed to download Instagram ${type}` },
-						{ status: 500 }
-					);
-				}
-			}
-
-			case "facebook": {
-				try {
-					// Get the media URL from query params (extracted by Puppeteer in actions.ts)
-					const mediaUrl = searchParams.get("media_url");
-
-					if (!mediaUrl) {
-						throw new Error("Missing media URL");
-					}
-
-					// Fetch video content directly from the extracted URL
-					const videoResponse = await fetch(mediaUrl, {
-						headers: {
-							"User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-							"Accept": "video/mp4,video/webm,video/*;q=0.9,*/*;q=0.8",
-							"Accept-Language": "en-US,en;q=0.5",
-							"Referer": "https://www.facebook.com/",
-						},
-					});
-
-					if (!videoResponse.ok) {
-						throw new Error("Failed to fetch video content");
-					}
-
-					const isReel = url.includes("/reel/") || url.includes("/reels/") || url.includes("fb.watch");
+		const response = await openProxyStream(request.nextUrl.searchParams, request.signal, request.headers.get("range"));
+		return meterBytes(response, identity, quota);
+	} catch (error) {
+		console.error("Proxy error:", error);
+		return errorResponse("INTERNAL", "Failed to process request");
+	}
+}
 
-					return new NextResponse(
-						videoResponse.body as ReadableStream,
-						{
-							headers: {
-								"Content-Type": "video/mp4",
-								"Content-Disposition": generateFilename(isReel ? "Facebook Reel" : "Facebook Video", ".mp4"),
-								"Cache-Control": "no-store, no-cache",
-							},
-						}
-					);
-				} catch (error) {
-					console.error("Facebook video error:", error);
-					return NextResponse.json(
-						{
-							error:
-								error instanceof Error
-									? error.message
-									: "Failed to download Facebook video",
-						},
-						{ status: 500 }
-					);
-				}
-			}
+// HEAD has no body, so the error's code and message move to headers
+async function headError(response: Response) {
+	const body: ProxyErrorBody = await response.json();
+	const headers = new Headers(response.headers);
+	headers.delete("content-type");
+	headers.set("X-Error-Code", body.code);
+	headers.set("X-Error-Message", encodeURIComponent(body.error));
+	return new Response(null, { status: response.status, headers });
+}
 
-			default:
-				return NextResponse.json(
-					{ error: "Unsupported content type" },
-					{ status: 400 }
-				);
+// Check a link before handing it to the browser's download manager, without
+// fetching anything upstream: the token and the client's byte budget.
+export async function HEAD(request: NextRequest) {
+	try {
+		const quota = await consume(clientIdentity(request.headers), "bytes", 0);
+		if (!quota.allowed) {
+			return headError(rateLimitResponse(quota));
 		}
+
+		signedParams(request.nextUrl.searchParams);
+		return new Response(null, { status: 204, headers: rateLimitHeaders(quota) });
 	} catch (error) {
-		console.error("Proxy error:", error);
-		return NextResponse.json(
-			{ error: "Failed to process request" },
-			{ status: 500 }
-		);
+		if (error instanceof DownloadError) {
+			return headError(errorResponse(error.code, error.message));
+		}
+		console.error("Proxy check error:", error);
+		return headError(errorResponse("INTERNAL", "Failed to process request"));
 	}
 }
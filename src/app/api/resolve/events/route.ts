@@ -0,0 +1,17 @@
+import type { NextRequest } from "next/server";
+import { clientIdentity } from "@/lib/rate-limit";
+import { resolveUrl } from "@/lib/resolve";
+import { eventStream } from "@/lib/sse";
+
+// The form's resolve as an event stream: a `stage` event (StageEvent) for
+// every step the server takes, then one `result` event with the
+// DownloadResult
+export function GET(request: NextRequest) {
+	const url = request.nextUrl.searchParams.get("url") ?? "";
+	const identity = clientIdentity(request.headers);
+
+	return eventStream(request.signal, async (send, signal) => {
+		const result = await resolveUrl(url, identity, { onStage: (event) => send("stage", event), signal });
+		send("result", result);
+	});
+}
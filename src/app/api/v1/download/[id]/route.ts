@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, unauthorizedResponse } from "@/lib/api-v1";
+import { errorResponse } from "@/lib/error-response";
+import { openProxyStream } from "@/lib/proxy";
+import { consume, meterBytes, rateLimitResponse } from "@/lib/rate-limit";
+
+// Stream a file from a resolve result. `id` is the signed download token,
+// query params (quality, format, ...) work as on /api/proxy.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const identity = apiIdentity(request.headers);
+		if (!identity) {
+			return unauthorizedResponse();
+		}
+
+		const quota = await consume(identity, "bytes", 0);
+		if (!quota.allowed) {
+			return rateLimitResponse(quota);
+		}
+
+		const query = new URLSearchParams(request.nextUrl.searchParams);
+		query.set("token", (await params).id);
+
+		const response = await openProxyStream(query, request.signal, request.headers.get("range"));
+		return meterBytes(response, identity, quota);
+	} catch (error) {
+		console.error("API download error:", error);
+		return errorResponse("INTERNAL", "Failed to process request");
+	}
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, readJsonBody, resultResponse, unauthorizedResponse } from "@/lib/api-v1";
+import type { EntriesRequestBody } from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import type { RateLimitResult } from "@/lib/rate-limit";
+import { resolveMoreEntries } from "@/lib/resolve";
+
+// POST { source, cursor } from a collection result for its next page
+export async function POST(request: NextRequest) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const body = await readJsonBody<EntriesRequestBody>(request);
+	if (typeof body?.source !== "string" || typeof body.cursor !== "string") {
+		return errorResponse("INVALID_URL", "Send a JSON body with the collection's `source` and `nextPage` as `cursor`.");
+	}
+
+	let quota: RateLimitResult | undefined;
+	const result = await resolveMoreEntries(body.source, body.cursor, identity, {
+		signal: request.signal,
+		onQuota: (charged) => (quota = charged),
+	});
+	return resultResponse(result, request.nextUrl.origin, quota);
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { apiIdentity, unauthorizedResponse } from "@/lib/api-v1";
+import { errorResponse } from "@/lib/error-response";
+import { getJob, readArtifact } from "@/lib/jobs";
+import { parseRange, rangeHeaders } from "@/lib/range";
+
+// The file a succeeded download or zip job saved. Already paid for from
+// the bytes budget when the job ran, and resumable with Range requests.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const job = await getJob((await params).id, identity);
+	if (!job) {
+		return errorResponse("NOT_FOUND", "No such job, it may have expired.");
+	}
+	if (!job.artifact) {
+		return errorResponse("NOT_READY", job.request.kind === "resolve"
+			? "Resolve jobs have no file, their result is part of the job."
+			: `The job is ${job.status}, its file is ready once it has succeeded.`);
+	}
+
+	const { size, contentType, filename } = job.artifact;
+	const range = parseRange(request.headers.get("range"), size);
+	if (range === "unsatisfiable") {
+		return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+	}
+
+	const body = await readArtifact(job.id, range ?? undefined);
+	if (!body) {
+		return errorResponse("NOT_FOUND", "The job's file is no longer available.");
+	}
+
+	return new NextResponse(body, {
+		status: range ? 206 : 200,
+		headers: {
+			...rangeHeaders(range, size),
+			"Content-Type": contentType,
+			"Content-Disposition": `attachment; filename="${filename}"`,
+			"Cache-Control": "private, no-cache",
+		},
+	});
+}
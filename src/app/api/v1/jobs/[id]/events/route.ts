@@ -0,0 +1,41 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, unauthorizedResponse, withJobLinks } from "@/lib/api-v1";
+import { errorResponse } from "@/lib/error-response";
+import { getJob, jobView } from "@/lib/jobs";
+import { eventStream } from "@/lib/sse";
+
+// Jobs may run on another instance, so the store is watched rather than
+// the worker
+const POLL_INTERVAL_MS = 500;
+
+// A `job` event with the whole job whenever its status, stage or progress
+// changes, closing once it has finished
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const { id } = await params;
+	if (!(await getJob(id, identity))) {
+		return errorResponse("NOT_FOUND", "No such job, it may have expired.");
+	}
+
+	const { origin } = request.nextUrl;
+
+	return eventStream(request.signal, async (send, signal) => {
+		let lastUpdate: number | null = null;
+		while (!signal.aborted) {
+			const job = await getJob(id, identity);
+			if (!job) return;
+
+			if (job.updatedAt !== lastUpdate) {
+				lastUpdate = job.updatedAt;
+				send("job", withJobLinks(jobView(job), origin));
+			}
+			if (job.status !== "queued" && job.status !== "running") return;
+
+			await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+		}
+	});
+}
@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, jobResponse, unauthorizedResponse } from "@/lib/api-v1";
+import { errorResponse } from "@/lib/error-response";
+import { cancelJob, getJob, jobView } from "@/lib/jobs";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+	return errorResponse("NOT_FOUND", "No such job, it may have expired.");
+}
+
+// Status, progress and outcome of a job
+export async function GET(request: NextRequest, { params }: Params) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const job = await getJob((await params).id, identity);
+	return job ? jobResponse(jobView(job), request.nextUrl.origin) : notFound();
+}
+
+// Cancel a queued or running job
+export async function DELETE(request: NextRequest, { params }: Params) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const job = await cancelJob((await params).id, identity);
+	return job ? jobResponse(jobView(job), request.nextUrl.origin) : notFound();
+}
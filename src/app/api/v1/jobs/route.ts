@@ -0,0 +1,34 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, jobResponse, readJsonBody, unauthorizedResponse } from "@/lib/api-v1";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { jobView, parseJobRequest, submitJob } from "@/lib/jobs";
+
+// POST a JobRequestBody to run it in the background. Answers 202 with the
+// queued job, poll its Location for status or pass a `callbackUrl`.
+export async function POST(request: NextRequest) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const body = await readJsonBody<Record<string, unknown>>(request);
+	if (!body) {
+		return errorResponse("INVALID_URL", "Send a JSON body with the job's `kind` and its input.");
+	}
+
+	try {
+		const { origin } = request.nextUrl;
+		const job = await submitJob(parseJobRequest(body), identity, origin);
+		return jobResponse(jobView(job), origin, {
+			status: 202,
+			headers: { Location: `${origin}/api/v1/jobs/${job.id}` },
+		});
+	} catch (error) {
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		console.error("Job submit error:", error);
+		return errorResponse("INTERNAL", "Failed to queue the job");
+	}
+}
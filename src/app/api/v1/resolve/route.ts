@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server";
+import { apiIdentity, readJsonBody, resultResponse, unauthorizedResponse } from "@/lib/api-v1";
+import type { ResolveRequestBody } from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import type { RateLimitResult } from "@/lib/rate-limit";
+import { resolveUrl } from "@/lib/resolve";
+
+// POST { url } and get the same DownloadResult the form gets
+export async function POST(request: NextRequest) {
+	const identity = apiIdentity(request.headers);
+	if (!identity) {
+		return unauthorizedResponse();
+	}
+
+	const body = await readJsonBody<ResolveRequestBody>(request);
+	if (typeof body?.url !== "string") {
+		return errorResponse("INVALID_URL", "Send a JSON body with the page URL as `url`.");
+	}
+
+	let quota: RateLimitResult | undefined;
+	const result = await resolveUrl(body.url, identity, { onQuota: (charged) => (quota = charged) });
+	return resultResponse(result, request.nextUrl.origin, quota);
+}
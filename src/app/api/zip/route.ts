@@ -0,0 +1,68 @@
+import type { NextRequest } from "next/server";
+import type { ZipRequestBody } from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import { generateFilename } from "@/lib/filename";
+import { proxyQuery, proxyZipEntries } from "@/lib/proxy";
+import { clientIdentity, consume, meterBytes, rateLimitResponse } from "@/lib/rate-limit";
+import { createZipStream, ZIP_MAX_BYTES, ZIP_MAX_ITEMS } from "@/lib/zip";
+
+function parseBody(body: unknown): ZipRequestBody | null {
+	if (typeof body !== "object" || body === null) return null;
+	const { items, name } = body as Record<string, unknown>;
+	if (!Array.isArray(items) || !items.every((item) => typeof item === "string")) return null;
+	if (name !== undefined && typeof name !== "string") return null;
+	return { items, name };
+}
+
+// Browsers without streamed saves submit a plain form with the JSON body in a
+// `payload` field, so the archive goes straight to their download manager
+async function readBody(request: NextRequest): Promise<unknown> {
+	if (request.headers.get("content-type")?.includes("application/x-www-form-urlencoded")) {
+		const payload = (await request.formData()).get("payload");
+		return typeof payload === "string" ? JSON.parse(payload) : null;
+	}
+	return request.json();
+}
+
+export async function POST(request: NextRequest) {
+	// Archives draw on the same bandwidth budget as /api/proxy
+	const identity = clientIdentity(request.headers);
+	const quota = await consume(identity, "bytes", 0);
+	if (!quota.allowed) {
+		return rateLimitResponse(quota);
+	}
+
+	let body: ZipRequestBody | null = null;
+	try {
+		body = parseBody(await readBody(request));
+	} catch {
+		// handled below
+	}
+
+	if (!body || body.items.length === 0) {
+		return errorResponse("INVALID_URL", "No items to download");
+	}
+	if (body.items.length > ZIP_MAX_ITEMS) {
+		return errorResponse("TOO_LARGE", `A ZIP can hold at most ${ZIP_MAX_ITEMS} items`);
+	}
+
+	// Only signed download links are accepted, as the form and the API issue them
+	const queries: URLSearchParams[] = [];
+	for (const item of body.items) {
+		const query = proxyQuery(item);
+		if (!query) {
+			return errorResponse("INVALID_URL", "Items must be /api/proxy or /api/v1/download links");
+		}
+		queries.push(query);
+	}
+
+	const entries = proxyZipEntries(queries, request.signal, ZIP_MAX_BYTES);
+
+	return meterBytes(new Response(createZipStream(entries, ZIP_MAX_BYTES), {
+		headers: {
+			"Content-Type": "application/zip",
+			"Content-Disposition": generateFilename(body.name || "downloads", ".zip"),
+			"Cache-Control": "no-store",
+		},
+	}), identity, quota);
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { downloadContent, loadMoreEntries } from "@/app/actions";
+import { Button } from "@/components/ui/button";
+import { Download, FileArchive, Loader2, ListVideo } from "lucide-react";
+import toast from "react-hot-toast";
+import type { CollectionEntry, DownloadCollection } from "@/lib/download-result";
+import { isExpiredLink, saveDownload, saveZip } from "@/lib/save-download";
+import { formatDuration } from "@/lib/utils";
+
+export default function CollectionList({ collection }: { collection: DownloadCollection }) {
+	const [entries, setEntries] = useState<CollectionEntry[]>(collection.entries);
+	const [nextPage, setNextPage] = useState(collection.nextPage);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [isLoadingMore, setIsLoadingMore] = useState(false);
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+	const [isZipping, setIsZipping] = useState(false);
+
+	const toggle = (id: string) => {
+		setSelected((current) => {
+			const next = new Set(current);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	};
+
+	const allSelected = entries.length > 0 && entries.every((e) => selected.has(e.id));
+
+	const toggleAll = () => {
+		setSelected(allSelected ? new Set() : new Set(entries.map((e) => e.id)));
+	};
+
+	const handleLoadMore = async () => {
+		if (!nextPage) return;
+
+		setIsLoadingMore(true);
+		try {
+			const page = await loadMoreEntries(collection.source, nextPage);
+			if (!page.success) {
+				toast.error(page.message);
+				return;
+			}
+			setEntries((current) => [...current, ...page.entries.filter((e) => !current.some((c) => c.id === e.id))]);
+			setNextPage(page.nextPage);
+		} catch {
+			toast.error("An error occurred. Please try again.");
+		} finally {
+			setIsLoadingMore(false);
+		}
+	};
+
+	// Entry links expire, an expired one is resolved again as a single video
+	const saveEntry = async (entry: CollectionEntry) => {
+		try {
+			await saveDownload(entry.downloadUrl, entry.title);
+		} catch (error) {
+			if (!isExpiredLink(error)) throw error;
+			const fresh = await downloadContent(entry.url);
+			if (!fresh.success || fresh.kind !== "media") throw error;
+			await saveDownload(fresh.downloadUrl, entry.title);
+		}
+	};
+
+	// Download the selected entries one after another
+	const handleDownloadSelected = async () => {
+		const queue = entries.filter((e) => selected.has(e.id));
+		if (queue.length === 0) return;
+
+		let failed = 0;
+		setProgress({ done: 0, total: queue.length });
+
+		for (const [i, entry] of queue.entries()) {
+			try {
+				await saveEntry(entry);
+			} catch (error) {
+				failed++;
+				const message = error instanceof Error ? error.message : "Failed to download";
+				toast.error(`${entry.title}: ${message}`);
+			}
+			setProgress({ done: i + 1, total: queue.length });
+		}
+
+		setProgress(null);
+		if (failed < queue.length) {
+			toast.success(`Started ${queue.length - failed} of ${queue.length} downloads`);
+		}
+	};
+
+	const handleDownloadZip = async () => {
+		const queue = entries.filter((e) => selected.has(e.id));
+		if (queue.length === 0) return;
+
+		setIsZipping(true);
+		try {
+			await saveZip({ name: collection.title, items: queue.map((e) => e.downloadUrl) });
+			toast.success("Download started");
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Failed to download";
+			toast.error(message);
+		} finally {
+			setIsZipping(false);
+		}
+	};
+
+	const isBusy = progress !== null || isZipping;
+
+	return (
+		<div className="p-4 space-y-4">
+			<div className="flex items-center gap-3">
+				<ListVideo className="w-8 h-8 text-green-600 flex-shrink-0" />
+				<div className="min-w-0">
+					<h3 className="text-lg font-semibold text-gray-800 line-clamp-1">{collection.title}</h3>
+					<p className="text-sm text-gray-500">
+						{collection.type} • {entries.length} videos{nextPage ? "+" : ""}
+					</p>
+				</div>
+			</div>
+
+			<div className="flex items-center justify-between text-sm">
+				<label className="flex items-center gap-2 text-gray-700">
+					<input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-green-600" />
+					Select all loaded
+				</label>
+				<span className="text-gray-500">{selected.size} selected</span>
+			</div>
+
+			<ul className="max-h-[400px] overflow-y-auto divide-y divide-green-50 rounded-lg border border-green-100">
+				{entries.map((entry) => (
+					<li key={entry.id}>
+						<label className="flex items-center gap-3 p-2 cursor-pointer hover:bg-green-50/50">
+							<input
+								type="checkbox"
+								checked={selected.has(entry.id)}
+								onChange={() => toggle(entry.id)}
+								className="accent-green-600"
+							/>
+							{entry.thumbnail && (
+								<img src={entry.thumbnail} alt="" className="w-24 h-14 object-cover rounded flex-shrink-0" />
+							)}
+							<span className="flex-1 min-w-0 text-sm text-gray-800 line-clamp-2">{entry.title}</span>
+							{entry.durationSeconds !== undefined && (
+								<span className="text-xs text-gray-500 flex-shrink-0">{formatDuration(entry.durationSeconds)}</span>
+							)}
+						</label>
+					</li>
+				))}
+			</ul>
+
+			{nextPage && (
+				<Button
+					variant="outline"
+					onClick={handleLoadMore}
+					disabled={isLoadingMore}
+					className="w-full border-green-200 text-green-700 hover:bg-green-50"
+				>
+					{isLoadingMore ? (
+						<>
+							<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+							Loading...
+						</>
+					) : (
+						"Load more"
+					)}
+				</Button>
+			)}
+
+			<div className="flex flex-col gap-2 sm:flex-row">
+				<Button
+					onClick={handleDownloadSelected}
+					disabled={isBusy || selected.size === 0}
+					className="flex-1 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white"
+				>
+					{progress ? (
+						<>
+							<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+							Downloading {progress.done + 1} of {progress.total}...
+						</>
+					) : (
+						<>
+							<Download className="w-4 h-4 mr-2" />
+							Download selected
+						</>
+					)}
+				</Button>
+				<Button
+					variant="outline"
+					onClick={handleDownloadZip}
+					disabled={isBusy || selected.size === 0}
+					className="flex-1 border-green-200 text-green-700 hover:bg-green-50"
+				>
+					{isZipping ? (
+						<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+					) : (
+						<FileArchive className="w-4 h-4 mr-2" />
+					)}
+					Download as ZIP
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import type { DownloadProgress } from "@/lib/save-download";
+import { formatBytes } from "@/lib/utils";
+
+function formatEta(seconds: number) {
+	if (seconds < 60) return `${Math.ceil(seconds)}s`;
+	const m = Math.floor(seconds / 60);
+	if (m < 60) return `${m}m ${Math.ceil(seconds % 60)}s`;
+	return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+// Live progress for a streamed save, null until the first bytes arrive
+export default function DownloadProgressBar({
+	progress,
+	onCancel,
+}: {
+	progress: DownloadProgress | null;
+	onCancel: () => void;
+}) {
+	const percent = progress?.total ? Math.min((progress.received / progress.total) * 100, 100) : null;
+	const eta = progress?.total && progress.bytesPerSecond > 0
+		? (progress.total - progress.received) / progress.bytesPerSecond
+		: null;
+
+	return (
+		<div className="space-y-2">
+			<div
+				role="progressbar"
+				aria-valuemin={0}
+				aria-valuemax={100}
+				aria-valuenow={percent === null ? undefined : Math.round(percent)}
+				className="h-2 overflow-hidden rounded-full bg-green-100"
+			>
+				<div
+					className={`h-full bg-gradient-to-r from-green-400 to-green-600 transition-[width] ${percent === null ? "w-1/3 animate-pulse" : ""}`}
+					style={percent === null ? undefined : { width: `${percent}%` }}
+				/>
+			</div>
+			<div className="flex items-center justify-between gap-2 text-xs text-gray-600">
+				<span>
+					{progress ? (
+						<>
+							{formatBytes(progress.received)}
+							{progress.total ? ` / ${formatBytes(progress.total)}` : ""}
+							{percent !== null && ` • ${Math.floor(percent)}%`}
+							{` • ${formatBytes(progress.bytesPerSecond)}/s`}
+							{eta !== null && ` • ${formatEta(eta)} left`}
+						</>
+					) : (
+						"Preparing download..."
+					)}
+				</span>
+				<Button variant="ghost" size="sm" onClick={onCancel} className="h-7 text-gray-600 hover:text-red-700">
+					<X className="w-4 h-4" />
+					Cancel
+				</Button>
+			</div>
+		</div>
+	);
+}
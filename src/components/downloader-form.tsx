@@ -1,31 +1,71 @@
 "use client";
 
 import type React from "react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { downloadContent } from "@/app/actions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { Download, Loader2, LinkIcon, AlertCircle, Video, Image as ImageIcon } from "lucide-react";
+import CollectionList from "@/components/collection-list";
+import DownloadProgressBar from "@/components/download-progress";
+import MediaGallery, { hasGallery } from "@/components/media-gallery";
+import MetadataPanel from "@/components/metadata-panel";
+import StageTimeline from "@/components/stage-timeline";
+import { Download, Loader2, LinkIcon, AlertCircle, Video, Image as ImageIcon, Music, Captions } from "lucide-react";
 import toast from "react-hot-toast";
+import {
+	AUDIO_BITRATES,
+	AUDIO_FORMATS,
+	DEFAULT_AUDIO_BITRATE,
+	SUBTITLE_FORMATS,
+	setProxyParams,
+	type AudioFormat,
+	type DownloadResult,
+	type DownloadSuccess,
+	type FormatOption,
+	type ProxyParams,
+	type StageEvent,
+	type SubtitleFormat,
+} from "@/lib/download-result";
+import { ERROR_HELP } from "@/lib/errors";
+import { resolveWithStages } from "@/lib/resolve-stream";
+import { isExpiredLink, saveDownload, type DownloadProgress } from "@/lib/save-download";
+import { formatBytes } from "@/lib/utils";
 
-interface DownloadResult {
-	success: boolean;
-	message: string;
-	downloadUrl?: string;
-	type?: string;
-	mediaType?: string;
-	title?: string;
-	thumbnail?: string;
-	mediaUrls?: { url: string; type: string; quality: string }[];
-	isExternal?: boolean;
+function formatLabel(format: FormatOption) {
+	const parts = [format.label, format.container];
+	if (!format.hasVideo) parts.push("audio only");
+	// Video-only formats are merged with the best audio track by the proxy
+	else if (!format.hasAudio) parts.push("merged with audio");
+	if (format.sizeBytes) parts.push(`~${formatBytes(format.sizeBytes)}`);
+	return parts.join(" • ");
+}
+
+// Add query params to a relative proxy link
+function withParams(link: string, params: ProxyParams) {
+	const target = new URL(link, window.location.origin);
+	setProxyParams(target.searchParams, params);
+	return `${target.pathname}${target.search}`;
 }
 
 export default function DownloaderForm() {
 	const [url, setUrl] = useState("");
 	const [isLoading, setIsLoading] = useState(false);
+	// Steps of the current resolve, kept after a failure to show where it stopped
+	const [stages, setStages] = useState<StageEvent[]>([]);
 	const [isDownloading, setIsDownloading] = useState(false);
+	const [progress, setProgress] = useState<DownloadProgress | null>(null);
+	const downloadController = useRef<AbortController | null>(null);
 	const [result, setResult] = useState<DownloadResult | null>(null);
+	// The URL `result` was resolved from, for refreshing expired links
+	const [resolvedUrl, setResolvedUrl] = useState<string | null>(null);
+	const [selectedQuality, setSelectedQuality] = useState<string | null>(null);
+	const [audioFormat, setAudioFormat] = useState<AudioFormat>("mp3");
+	const [audioBitrate, setAudioBitrate] = useState<number>(DEFAULT_AUDIO_BITRATE);
+	// Index into result.subtitles
+	const [subtitleIndex, setSubtitleIndex] = useState(0);
+	const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>("srt");
+	const [includeSubtitles, setIncludeSubtitles] = useState(false);
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
@@ -37,10 +77,21 @@ export default function DownloaderForm() {
 
 		setIsLoading(true);
 		setResult(null);
+		setStages([]);
+		setSelectedQuality(null);
+		setSubtitleIndex(0);
+
+		// A stage reported again only updates its percentage
+		const onStage = (event: StageEvent) => {
+			setStages((current) => current.at(-1)?.stage === event.stage
+				? [...current.slice(0, -1), event]
+				: [...current, event]);
+		};
 
 		try {
-			const response = await downloadContent(url.trim());
+			const response = await resolveWithStages(url.trim(), onStage);
 			setResult(response);
+			setResolvedUrl(url.trim());
 
 			if (response.success) {
 				toast.success("Content ready for download!");
@@ -54,82 +105,119 @@ export default function DownloaderForm() {
 		}
 	};
 
-	const handleDownload = async () => {
-		if (!result?.downloadUrl) return;
-
-		setIsDownloading(true);
+	// Apply the picked format or rendition to the proxy link, defaulting to
+	// the server's choice
+	const getDownloadUrl = (success: DownloadSuccess) => {
+		if (selectedQuality === null) return success.downloadUrl;
+		// Renditions are picked by label, so a refreshed result keeps the choice
+		const rendition = success.mediaUrls.find((item) => item.downloadUrl && item.quality === selectedQuality);
+		if (rendition?.downloadUrl) return rendition.downloadUrl;
+		return withParams(success.downloadUrl, { quality: selectedQuality });
+	};
 
-		try {
-			// Check if this is an external direct URL (Facebook)
-			if (result.isExternal) {
-				// For external URLs, open in new tab or use direct download
-				const link = document.createElement("a");
-				link.href = result.downloadUrl;
-				link.target = "_blank";
-				link.download = `${result.title?.replace(/[^a-z0-9]/gi, "-") || "download"}.mp4`;
-				document.body.appendChild(link);
-				link.click();
-				document.body.removeChild(link);
-				toast.success("Download started!");
-				setIsDownloading(false);
-				return;
-			}
+	const getAudioUrl = (audioUrl: string) => {
+		return withParams(audioUrl, {
+			format: audioFormat,
+			bitrate: audioFormat === "mp3" ? audioBitrate : undefined,
+		});
+	};
 
-			// For proxied URLs (YouTube, Instagram)
-			const response = await fetch(result.downloadUrl);
+	const getSubtitleUrl = (success: DownloadSuccess) => {
+		const track = success.subtitles?.[subtitleIndex];
+		if (!track) throw new Error("These subtitles are no longer available");
+		return withParams(track.downloadUrl, { format: subtitleFormat });
+	};
 
-			if (!response.ok) {
-				const contentType = response.headers.get("content-type");
-				if (contentType?.includes("application/json")) {
-					const errorData = await response.json();
-					throw new Error(errorData.error || "Download failed");
-				}
-				throw new Error(`Download failed: ${response.statusText}`);
-			}
+	// Resolve the page again for fresh download links
+	const refreshResult = async () => {
+		if (!resolvedUrl) return null;
+		const fresh = await downloadContent(resolvedUrl);
+		if (!fresh.success || fresh.kind !== "media") return null;
+		setResult(fresh);
+		return fresh;
+	};
 
-			// Get filename from header or use default
-			const contentDisposition = response.headers.get("content-disposition");
-			let filename = result.title || "download";
+	// Run `save` against the current result, and once more with fresh links
+	// if the current ones have expired
+	const withFreshLinks = async <T,>(success: DownloadSuccess, save: (success: DownloadSuccess) => Promise<T>) => {
+		try {
+			return await save(success);
+		} catch (error) {
+			if (!isExpiredLink(error)) throw error;
+			const fresh = await refreshResult();
+			if (!fresh) throw error;
+			return await save(fresh);
+		}
+	};
 
-			if (contentDisposition) {
-				const matches = /filename="([^"]+)"/.exec(contentDisposition);
-				if (matches?.[1]) {
-					filename = decodeURIComponent(matches[1]);
-				}
-			} else {
-				const contentType = response.headers.get("content-type");
-				const extension = contentType?.includes("video") ? ".mp4" : ".jpg";
-				filename = filename.replace(/[^a-z0-9]/gi, "-") + extension;
-			}
+	const handleDownload = async (getLink: (success: DownloadSuccess) => string) => {
+		if (!result?.success || result.kind !== "media") return;
 
-			// Download blob
-			const blob = await response.blob();
-			const blobUrl = window.URL.createObjectURL(blob);
+		const controller = new AbortController();
+		downloadController.current = controller;
+		setIsDownloading(true);
+		setProgress(null);
 
-			const link = document.createElement("a");
-			link.href = blobUrl;
-			link.download = filename;
-			document.body.appendChild(link);
-			link.click();
-			document.body.removeChild(link);
+		const save = (success: DownloadSuccess) =>
+			saveDownload(getLink(success), success.title, {
+				signal: controller.signal,
+				onProgress: setProgress,
+			});
 
-			window.URL.revokeObjectURL(blobUrl);
-			toast.success("Download completed!");
+		try {
+			const method = await withFreshLinks(result, save);
+			toast.success(method === "stream" ? "Download completed!" : "Download started");
 		} catch (error) {
+			// Cancelling, or dismissing the save dialog, isn't an error
+			if (error instanceof DOMException && error.name === "AbortError") {
+				toast("Download cancelled");
+				return;
+			}
 			const message = error instanceof Error ? error.message : "Failed to download";
 			toast.error(message);
 		} finally {
+			downloadController.current = null;
 			setIsDownloading(false);
+			setProgress(null);
 		}
 	};
 
+	// Subtitle files are small, the browser's download manager takes them
+	const handleSubtitles = async () => {
+		if (!result?.success || result.kind !== "media") return;
+
+		try {
+			await withFreshLinks(result, (success) => saveDownload(getSubtitleUrl(success), success.title));
+			toast.success("Subtitles download started");
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Failed to download subtitles";
+			toast.error(message);
+		}
+	};
+
+	const handleDownloadVideo = () => {
+		if (includeSubtitles && result?.success && result.kind === "media" && result.subtitles?.length) {
+			handleSubtitles();
+		}
+		handleDownload(getDownloadUrl);
+	};
+
+	// Previews stream through the proxy instead of hotlinking the platform's
+	// CDN, only from a link it serves by range so the player can seek. Merged
+	// videos show their thumbnail rather than starting ffmpeg.
 	const getPreviewUrl = () => {
-		if (!result?.mediaUrls?.length) return null;
-		return result.mediaUrls[0].url;
+		if (!result?.success || result.kind !== "media") return null;
+		return result.previewUrl ?? null;
 	};
 
-	const isVideo = result?.mediaType === "video";
+	const isVideo = result?.success === true && result.kind === "media" && result.mediaType === "video";
 	const previewUrl = getPreviewUrl();
+	// Carousels show every item with its own download action
+	const showGallery = result?.success === true && result.kind === "media" && hasGallery(result);
+	// A single video's renditions with their own links, e.g. Facebook HD and SD
+	const renditions = result?.success === true && result.kind === "media" && !showGallery
+		? result.mediaUrls.filter((item) => item.downloadUrl)
+		: [];
 
 	return (
 		<div className="w-full max-w-3xl mx-auto">
@@ -170,35 +258,51 @@ export default function DownloaderForm() {
 						</div>
 					</form>
 
+					{(isLoading || result?.success === false) && stages.length > 0 && (
+						<div className="mt-6 rounded-lg border border-green-100 bg-green-50/30 p-4">
+							<StageTimeline stages={stages} failed={!isLoading} />
+						</div>
+					)}
+
 					{result && (
 						<div className="mt-6 overflow-hidden rounded-lg border border-green-100 shadow-sm">
-							{result.success ? (
+							{result.success && result.kind === "collection" ? (
+								<CollectionList collection={result} />
+							) : result.success ? (
 								<div className="p-4 space-y-4">
 									{/* Preview */}
-									<div className="flex justify-center bg-gray-50 rounded-lg overflow-hidden">
-										{isVideo && previewUrl ? (
-											<video
-												controls
-												preload="metadata"
-												className="max-h-[400px] w-full object-contain"
-												src={previewUrl}
-											/>
-										) : result.thumbnail ? (
-											<img
-												src={result.thumbnail}
-												alt={result.title || "Preview"}
-												className="max-h-[400px] w-full object-contain"
-											/>
-										) : (
-											<div className="h-48 flex items-center justify-center text-gray-400">
-												{isVideo ? (
-													<Video className="w-16 h-16" />
-												) : (
-													<ImageIcon className="w-16 h-16" />
-												)}
-											</div>
-										)}
-									</div>
+									{showGallery ? (
+										<MediaGallery
+											items={result.mediaUrls}
+											title={result.title}
+											onExpired={async () => (await refreshResult())?.mediaUrls ?? null}
+										/>
+									) : (
+										<div className="flex justify-center bg-gray-50 rounded-lg overflow-hidden">
+											{isVideo && previewUrl ? (
+												<video
+													controls
+													preload="metadata"
+													className="max-h-[400px] w-full object-contain"
+													src={previewUrl}
+												/>
+											) : result.thumbnail ? (
+												<img
+													src={result.thumbnail}
+													alt={result.title || "Preview"}
+													className="max-h-[400px] w-full object-contain"
+												/>
+											) : (
+												<div className="h-48 flex items-center justify-center text-gray-400">
+													{isVideo ? (
+														<Video className="w-16 h-16" />
+													) : (
+														<ImageIcon className="w-16 h-16" />
+													)}
+												</div>
+											)}
+										</div>
+									)}
 
 									{/* Title */}
 									<div className="text-center">
@@ -210,29 +314,178 @@ export default function DownloaderForm() {
 										</p>
 									</div>
 
+									<MetadataPanel result={result} />
+
+									{/* Quality */}
+									{result.formats && result.formats.length > 0 && (
+										<div className="space-y-1">
+											<label htmlFor="quality" className="text-sm font-medium text-gray-700">
+												Quality
+											</label>
+											<select
+												id="quality"
+												value={selectedQuality ?? ""}
+												onChange={(e) => setSelectedQuality(e.target.value || null)}
+												className="w-full h-9 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+											>
+												<option value="">Best available</option>
+												<option value="best">Highest resolution (merged video + audio)</option>
+												{result.formats.map((format) => (
+													<option key={format.itag} value={format.itag}>
+														{formatLabel(format)}
+													</option>
+												))}
+											</select>
+										</div>
+									)}
+
+									{renditions.length > 1 && (
+										<div className="space-y-1">
+											<label htmlFor="rendition" className="text-sm font-medium text-gray-700">
+												Quality
+											</label>
+											<select
+												id="rendition"
+												value={selectedQuality ?? renditions[0].quality}
+												onChange={(e) => setSelectedQuality(e.target.value)}
+												className="w-full h-9 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+											>
+												{renditions.map((item) => (
+													<option key={item.quality} value={item.quality}>
+														{item.quality}
+													</option>
+												))}
+											</select>
+										</div>
+									)}
+
 									{/* Download Button */}
-									<Button
-										onClick={handleDownload}
-										disabled={isDownloading}
-										className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white"
-									>
-										{isDownloading ? (
-											<>
-												<Loader2 className="w-4 h-4 mr-2 animate-spin" />
-												Downloading...
-											</>
-										) : (
-											<>
-												<Download className="w-4 h-4 mr-2" />
-												Download {result.type}
-											</>
-										)}
-									</Button>
+									{!showGallery && (
+										<Button
+											onClick={handleDownloadVideo}
+											disabled={isDownloading}
+											className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white"
+										>
+											{isDownloading ? (
+												<>
+													<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+													Downloading...
+												</>
+											) : (
+												<>
+													<Download className="w-4 h-4 mr-2" />
+													Download {result.type}
+												</>
+											)}
+										</Button>
+									)}
+
+									{isDownloading && (
+										<DownloadProgressBar
+											progress={progress}
+											onCancel={() => downloadController.current?.abort()}
+										/>
+									)}
+
+									{/* Audio only */}
+									{result.audioUrl && (
+										<div className="flex flex-col gap-2 pt-2 border-t border-green-100 sm:flex-row">
+											<select
+												aria-label="Audio format"
+												value={audioFormat}
+												onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
+												className="h-9 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+											>
+												{AUDIO_FORMATS.map((format) => (
+													<option key={format} value={format}>
+														{format.toUpperCase()}
+													</option>
+												))}
+											</select>
+											{audioFormat === "mp3" && (
+												<select
+													aria-label="Audio bitrate"
+													value={audioBitrate}
+													onChange={(e) => setAudioBitrate(Number(e.target.value))}
+													className="h-9 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+												>
+													{AUDIO_BITRATES.map((bitrate) => (
+														<option key={bitrate} value={bitrate}>
+															{bitrate} kbps
+														</option>
+													))}
+												</select>
+											)}
+											<Button
+												variant="outline"
+												onClick={() => handleDownload((success) => getAudioUrl(success.audioUrl!))}
+												disabled={isDownloading}
+												className="flex-1 border-green-200 text-green-700 hover:bg-green-50"
+											>
+												<Music className="w-4 h-4 mr-2" />
+												Download audio only
+											</Button>
+										</div>
+									)}
+
+									{/* Subtitles */}
+									{result.subtitles && result.subtitles.length > 0 && (
+										<div className="space-y-2 pt-2 border-t border-green-100">
+											<div className="flex flex-col gap-2 sm:flex-row">
+												<select
+													aria-label="Subtitle language"
+													value={subtitleIndex}
+													onChange={(e) => setSubtitleIndex(Number(e.target.value))}
+													className="h-9 min-w-0 flex-1 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+												>
+													{result.subtitles.map((track, index) => (
+														<option key={track.downloadUrl} value={index}>
+															{track.name}
+														</option>
+													))}
+												</select>
+												<select
+													aria-label="Subtitle format"
+													value={subtitleFormat}
+													onChange={(e) => setSubtitleFormat(e.target.value as SubtitleFormat)}
+													className="h-9 rounded-md border border-green-200 bg-green-50/50 px-3 text-sm focus:border-green-500 focus:outline-none"
+												>
+													{SUBTITLE_FORMATS.map((format) => (
+														<option key={format} value={format}>
+															{format.toUpperCase()}
+														</option>
+													))}
+												</select>
+												<Button
+													variant="outline"
+													onClick={handleSubtitles}
+													className="border-green-200 text-green-700 hover:bg-green-50"
+												>
+													<Captions className="w-4 h-4 mr-2" />
+													Download subtitles
+												</Button>
+											</div>
+											{!showGallery && (
+												<label className="flex items-center gap-2 text-sm text-gray-600">
+													<input
+														type="checkbox"
+														checked={includeSubtitles}
+														onChange={(e) => setIncludeSubtitles(e.target.checked)}
+														className="accent-green-600"
+													/>
+													Also download subtitles with the video
+												</label>
+											)}
+										</div>
+									)}
 								</div>
 							) : (
-								<div className="flex items-center p-4 text-red-800 bg-red-50">
+								<div className="flex items-start p-4 text-red-800 bg-red-50">
 									<AlertCircle className="w-5 h-5 mr-3 flex-shrink-0" />
-									<p className="text-sm">{result.message}</p>
+									<div>
+										<p className="text-sm">{result.message}</p>
+										<p className="text-xs text-red-600 mt-1">{ERROR_HELP[result.code]}</p>
+									</div>
 								</div>
 							)}
 						</div>
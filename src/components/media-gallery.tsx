@@ -0,0 +1,172 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, FileArchive, Loader2, Video, Image as ImageIcon } from "lucide-react";
+import toast from "react-hot-toast";
+import type { DownloadSuccess, MediaItem } from "@/lib/download-result";
+import { isExpiredLink, saveDownload, saveZip } from "@/lib/save-download";
+
+type GalleryItem = MediaItem & { downloadUrl: string };
+
+// Posts and profiles hold separate media, each downloaded on its own. The
+// items of a video or reel are renditions of it, picked as a quality.
+export function hasGallery(result: DownloadSuccess) {
+	const separate = result.type === "Post" || result.type === "Profile";
+	return separate && result.mediaUrls.filter((item) => item.downloadUrl).length > 1;
+}
+
+function galleryItemsOf(items: MediaItem[]) {
+	return items.filter((item): item is GalleryItem => Boolean(item.downloadUrl));
+}
+
+export default function MediaGallery({
+	items,
+	title,
+	onExpired,
+}: {
+	items: MediaItem[];
+	title: string;
+	// Resolves the post again when its download links have expired
+	onExpired?: () => Promise<MediaItem[] | null>;
+}) {
+	const galleryItems = galleryItemsOf(items);
+	// Refreshed links, so a running "Download all" picks them up
+	const latestItems = useRef(galleryItems);
+	latestItems.current = galleryItems;
+	const [downloading, setDownloading] = useState<Set<number>>(new Set());
+	const [isDownloadingAll, setIsDownloadingAll] = useState(false);
+	const [isZipping, setIsZipping] = useState(false);
+
+	const download = async (index: number) => {
+		setDownloading((current) => new Set(current).add(index));
+		const save = (item: GalleryItem) => saveDownload(item.downloadUrl, `${title}-${index + 1}`);
+		try {
+			try {
+				await save(latestItems.current[index]);
+			} catch (error) {
+				const fresh = isExpiredLink(error) && onExpired ? await onExpired() : null;
+				if (!fresh || !galleryItemsOf(fresh)[index]) throw error;
+				latestItems.current = galleryItemsOf(fresh);
+				await save(latestItems.current[index]);
+			}
+			return true;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Failed to download";
+			toast.error(`Item ${index + 1}: ${message}`);
+			return false;
+		} finally {
+			setDownloading((current) => {
+				const next = new Set(current);
+				next.delete(index);
+				return next;
+			});
+		}
+	};
+
+	const handleDownloadOne = async (index: number) => {
+		if (await download(index)) {
+			toast.success("Download started");
+		}
+	};
+
+	// Download every item one after another
+	const handleDownloadAll = async () => {
+		setIsDownloadingAll(true);
+		let completed = 0;
+		for (const index of galleryItems.keys()) {
+			if (await download(index)) completed++;
+		}
+		setIsDownloadingAll(false);
+		if (completed > 0) {
+			toast.success(`Started ${completed} of ${galleryItems.length} downloads`);
+		}
+	};
+
+	const handleDownloadZip = async () => {
+		setIsZipping(true);
+		try {
+			await saveZip({ name: title, items: galleryItems.map((item) => item.downloadUrl) });
+			toast.success("Download started");
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Failed to download";
+			toast.error(message);
+		} finally {
+			setIsZipping(false);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+				{galleryItems.map((item, index) => (
+					<div key={item.downloadUrl} className="overflow-hidden rounded-lg border border-green-100 bg-gray-50">
+						<div className="relative aspect-square">
+							{item.thumbnail ? (
+								<img
+									src={item.thumbnail}
+									alt={`Item ${index + 1}`}
+									className="h-full w-full object-cover"
+								/>
+							) : (
+								<div className="h-full flex items-center justify-center text-gray-400">
+									{item.type === "video" ? <Video className="w-10 h-10" /> : <ImageIcon className="w-10 h-10" />}
+								</div>
+							)}
+							<span className="absolute top-2 left-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+								{index + 1} • {item.type === "video" ? "Video" : "Image"} • {item.quality}
+							</span>
+						</div>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => handleDownloadOne(index)}
+							disabled={downloading.has(index)}
+							className="w-full rounded-none text-green-700 hover:bg-green-50"
+						>
+							{downloading.has(index) ? (
+								<Loader2 className="w-4 h-4 animate-spin" />
+							) : (
+								<Download className="w-4 h-4" />
+							)}
+							Download this
+						</Button>
+					</div>
+				))}
+			</div>
+
+			<div className="flex flex-col gap-2 sm:flex-row">
+				<Button
+					onClick={handleDownloadAll}
+					disabled={isDownloadingAll || isZipping}
+					className="flex-1 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white"
+				>
+					{isDownloadingAll ? (
+						<>
+							<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+							Downloading...
+						</>
+					) : (
+						<>
+							<Download className="w-4 h-4 mr-2" />
+							Download all ({galleryItems.length})
+						</>
+					)}
+				</Button>
+				<Button
+					variant="outline"
+					onClick={handleDownloadZip}
+					disabled={isDownloadingAll || isZipping}
+					className="flex-1 border-green-200 text-green-700 hover:bg-green-50"
+				>
+					{isZipping ? (
+						<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+					) : (
+						<FileArchive className="w-4 h-4 mr-2" />
+					)}
+					Download as ZIP
+				</Button>
+			</div>
+		</div>
+	);
+}
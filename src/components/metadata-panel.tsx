@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileJson, FileText } from "lucide-react";
+import type { DownloadSuccess } from "@/lib/download-result";
+import { buildSidecar, type SidecarFormat } from "@/lib/metadata-sidecar";
+import { saveFile } from "@/lib/save-download";
+import { formatDuration } from "@/lib/utils";
+
+const compactNumber = new Intl.NumberFormat("en", { notation: "compact" });
+
+// Publish dates are often date-only, read as UTC midnight
+function formatDate(value: string) {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return value;
+	return date.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+// Author, stats, publish date and description of a resolved result, with
+// the provenance sidecars to save alongside the media
+export default function MetadataPanel({ result }: { result: DownloadSuccess }) {
+	const { metadata } = result;
+	const [isExpanded, setIsExpanded] = useState(false);
+
+	// `exact` is shown on hover where the value is abbreviated
+	const facts: { label: string; value: string; exact?: string }[] = [];
+	if (metadata.durationSeconds !== undefined) {
+		facts.push({ label: "Duration", value: formatDuration(metadata.durationSeconds) });
+	}
+	if (metadata.viewCount !== undefined) {
+		facts.push({ label: "Views", value: compactNumber.format(metadata.viewCount), exact: metadata.viewCount.toLocaleString() });
+	}
+	if (metadata.likeCount !== undefined) {
+		facts.push({ label: "Likes", value: compactNumber.format(metadata.likeCount), exact: metadata.likeCount.toLocaleString() });
+	}
+	if (metadata.publishedAt) {
+		facts.push({ label: "Published", value: formatDate(metadata.publishedAt) });
+	}
+
+	// Roughly what line-clamp-3 cuts off
+	const isLongDescription = (metadata.description?.length ?? 0) > 240 || (metadata.description?.split("\n").length ?? 0) > 3;
+
+	const saveSidecar = (format: SidecarFormat) => {
+		const { content, filename, type } = buildSidecar(result, format);
+		saveFile(content, filename, type);
+	};
+
+	return (
+		<div className="space-y-3 rounded-lg border border-green-100 bg-green-50/30 p-3 text-sm">
+			{metadata.author && (
+				<p className="text-gray-700">
+					By{" "}
+					{metadata.authorUrl ? (
+						<a href={metadata.authorUrl} target="_blank" rel="noopener noreferrer" className="font-medium text-green-700 hover:underline">
+							{metadata.author}
+						</a>
+					) : (
+						<span className="font-medium">{metadata.author}</span>
+					)}
+				</p>
+			)}
+
+			{facts.length > 0 && (
+				<dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+					{facts.map((fact) => (
+						<div key={fact.label}>
+							<dt className="text-xs text-gray-500">{fact.label}</dt>
+							<dd className="font-medium text-gray-800" title={fact.exact}>
+								{fact.value}
+							</dd>
+						</div>
+					))}
+				</dl>
+			)}
+
+			{metadata.description && (
+				<div>
+					<p className={`whitespace-pre-line break-words text-gray-600 ${isExpanded ? "" : "line-clamp-3"}`}>
+						{metadata.description}
+					</p>
+					{isLongDescription && (
+						<button
+							type="button"
+							onClick={() => setIsExpanded((expanded) => !expanded)}
+							className="mt-1 text-xs font-medium text-green-700 hover:underline"
+						>
+							{isExpanded ? "Show less" : "Show more"}
+						</button>
+					)}
+				</div>
+			)}
+
+			<div className="flex flex-wrap gap-2">
+				<Button variant="outline" size="sm" onClick={() => saveSidecar("json")} className="border-green-200 text-green-700 hover:bg-green-50">
+					<FileJson className="w-4 h-4" />
+					Metadata (.json)
+				</Button>
+				<Button variant="outline" size="sm" onClick={() => saveSidecar("nfo")} className="border-green-200 text-green-700 hover:bg-green-50">
+					<FileText className="w-4 h-4" />
+					Metadata (.nfo)
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import type { ProgressStage, StageEvent } from "@/lib/download-result";
+
+const STAGE_LABELS: Record<ProgressStage, string> = {
+	validating: "Validating link",
+	fetching_page: "Fetching page",
+	launching_browser: "Launching browser",
+	extracting_formats: "Extracting formats",
+	downloading: "Downloading",
+	muxing: "Merging video and audio",
+};
+
+// Steps the server has reported so far, the last one still running or,
+// when `failed`, the one that failed
+export default function StageTimeline({ stages, failed }: { stages: StageEvent[]; failed: boolean }) {
+	if (stages.length === 0) return null;
+
+	return (
+		<ol className="space-y-1.5 text-sm" aria-live="polite">
+			{stages.map(({ stage, percent }, i) => {
+				const isLast = i === stages.length - 1;
+				const state = !isLast ? "done" : failed ? "failed" : "active";
+				return (
+					<li key={`${i}-${stage}`} className="flex items-center gap-2">
+						{state === "done" && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+						{state === "active" && <Loader2 className="w-4 h-4 text-green-600 animate-spin" />}
+						{state === "failed" && <XCircle className="w-4 h-4 text-red-600" />}
+						<span className={state === "failed" ? "text-red-700 font-medium" : state === "active" ? "text-gray-900" : "text-gray-500"}>
+							{STAGE_LABELS[stage]}
+							{state === "active" && percent !== undefined && ` ${percent}%`}
+							{state === "failed" && " failed"}
+						</span>
+					</li>
+				);
+			})}
+		</ol>
+	);
+}
@@ -0,0 +1,185 @@
+import {
+	setProxyParams,
+	type CollectionPage,
+	type DownloadCollection,
+	type DownloadSuccess,
+	type EntriesRequestBody,
+	type Job,
+	type JobCallbackPayload,
+	type JobRequestBody,
+	type ProxyErrorBody,
+	type ProxyParams,
+	type ResolveRequestBody,
+} from "@/lib/download-result";
+import { DownloadError, type ErrorCode } from "@/lib/errors";
+import { parseFilename } from "@/lib/filename";
+import { progressStream, type DownloadProgress } from "@/lib/save-download";
+
+// Typed client for /api/v1, usable from Node and the browser. Requests and
+// results share their types with the routes (see openapi.ts), and failures
+// throw a DownloadApiError with the API's error code.
+
+export interface DownloadClientOptions {
+	// Origin the API is served from, e.g. "https://example.com"
+	baseUrl: string;
+	apiKey: string;
+	fetch?: typeof fetch;
+}
+
+export interface DownloadOptions {
+	params?: ProxyParams;
+	// Byte offsets of a single range, `end` inclusive
+	range?: { start: number; end?: number };
+	signal?: AbortSignal;
+	onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface DownloadedFile {
+	body: ReadableStream<Uint8Array>;
+	filename: string | null;
+	contentType: string | null;
+	// From Content-Length, absent when the size isn't known upfront
+	size?: number;
+	// 206 when a range was served
+	status: number;
+}
+
+export class DownloadApiError extends DownloadError {
+	// Seconds to wait before retrying, sent with RATE_LIMITED
+	readonly retryAfter?: number;
+
+	constructor(code: ErrorCode, message: string, retryAfter?: number) {
+		super(code, message);
+		this.name = "DownloadApiError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+async function apiError(response: Response) {
+	const retryAfter = Number(response.headers.get("retry-after")) || undefined;
+	if (response.headers.get("content-type")?.includes("application/json")) {
+		const body: ProxyErrorBody = await response.json();
+		return new DownloadApiError(body.code, body.error, retryAfter);
+	}
+	return new DownloadApiError("INTERNAL", `Request failed: ${response.status} ${response.statusText}`, retryAfter);
+}
+
+const encoder = new TextEncoder();
+
+// Whether an X-Webhook-Signature header was made for this body with `secret`
+// no more than `toleranceSeconds` ago
+async function isValidSignature(body: string, header: string, secret: string, toleranceSeconds: number) {
+	const match = header.match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+	if (!match) return false;
+	const [, timestamp, hex] = match;
+	if (Math.abs(Date.now() / 1000 - Number(timestamp)) > toleranceSeconds) return false;
+
+	const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+	const signature = Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+	return crypto.subtle.verify("HMAC", key, signature, encoder.encode(`${timestamp}.${body}`));
+}
+
+export function createDownloadClient({ baseUrl, apiKey, fetch: fetchImpl = fetch }: DownloadClientOptions) {
+	const origin = baseUrl.replace(/\/+$/, "");
+	const auth = { Authorization: `Bearer ${apiKey}` };
+
+	async function request<T>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+		const response = await fetchImpl(`${origin}${path}`, {
+			method,
+			headers: body === undefined ? auth : { ...auth, "Content-Type": "application/json" },
+			body: body === undefined ? undefined : JSON.stringify(body),
+			signal,
+		});
+		if (!response.ok) throw await apiError(response);
+		return response.json();
+	}
+
+	const getJob = (id: string, signal?: AbortSignal) => request<Job>("GET", `/api/v1/jobs/${encodeURIComponent(id)}`, undefined, signal);
+
+	return {
+		resolve(url: string, signal?: AbortSignal) {
+			const body: ResolveRequestBody = { url };
+			return request<DownloadSuccess | DownloadCollection>("POST", "/api/v1/resolve", body, signal);
+		},
+
+		// Next page of a collection, pass its `source` and `nextPage`
+		loadMore(source: string, cursor: string, signal?: AbortSignal) {
+			const body: EntriesRequestBody = { source, cursor };
+			return request<CollectionPage>("POST", "/api/v1/entries", body, signal);
+		},
+
+		// Fetch a download link from a resolve result. Links are signed and
+		// expire, LINK_EXPIRED means resolving the page again.
+		async download(link: string, options: DownloadOptions = {}): Promise<DownloadedFile> {
+			const url = new URL(link, origin);
+			if (options.params) setProxyParams(url.searchParams, options.params);
+
+			const headers: Record<string, string> = { ...auth };
+			if (options.range) {
+				headers.Range = `bytes=${options.range.start}-${options.range.end ?? ""}`;
+			}
+
+			const response = await fetchImpl(url, { headers, signal: options.signal });
+			if (!response.ok) throw await apiError(response);
+			if (!response.body) throw new DownloadApiError("INTERNAL", "The download has no body.");
+
+			const contentLength = Number(response.headers.get("content-length"));
+			const size = contentLength > 0 ? contentLength : undefined;
+			const filename = parseFilename(response.headers.get("content-disposition"));
+
+			return {
+				body: options.onProgress ? response.body.pipeThrough(progressStream(size, options.onProgress)) : response.body,
+				filename: filename && decodeURIComponent(filename),
+				contentType: response.headers.get("content-type"),
+				size,
+				status: response.status,
+			};
+		},
+
+		// Queue a job; its artifact is fetched with download(job.artifact.downloadUrl)
+		submitJob(job: JobRequestBody, signal?: AbortSignal) {
+			return request<Job>("POST", "/api/v1/jobs", job, signal);
+		},
+
+		getJob,
+
+		cancelJob(id: string, signal?: AbortSignal) {
+			return request<Job>("DELETE", `/api/v1/jobs/${encodeURIComponent(id)}`, undefined, signal);
+		},
+
+		// Poll a job until it has finished, whether it succeeded or not
+		async waitForJob(id: string, options: { intervalMs?: number; signal?: AbortSignal; onUpdate?: (job: Job) => void } = {}) {
+			const { intervalMs = 2000, signal, onUpdate } = options;
+			while (true) {
+				const job = await getJob(id, signal);
+				onUpdate?.(job);
+				if (job.status !== "queued" && job.status !== "running") return job;
+
+				await new Promise<void>((resolve, reject) => {
+					if (signal?.aborted) return reject(signal.reason);
+					const onAbort = () => {
+						clearTimeout(timer);
+						reject(signal!.reason);
+					};
+					const timer = setTimeout(() => {
+						signal?.removeEventListener("abort", onAbort);
+						resolve();
+					}, intervalMs);
+					signal?.addEventListener("abort", onAbort, { once: true });
+				});
+			}
+		},
+
+		// Check a request to a job's callbackUrl, given its raw body and
+		// X-Webhook-Signature header. Throws UNAUTHORIZED unless it was signed
+		// with this client's API key in the last `toleranceSeconds`.
+		async verifyCallback(body: string, signature: string | null, toleranceSeconds = 300): Promise<JobCallbackPayload> {
+			if (!signature || !(await isValidSignature(body, signature, apiKey, toleranceSeconds))) {
+				throw new DownloadApiError("UNAUTHORIZED", "The callback signature is invalid or too old.");
+			}
+			return JSON.parse(body);
+		},
+	};
+}
+
+export type DownloadClient = ReturnType<typeof createDownloadClient>;
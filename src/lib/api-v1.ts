@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import type {
+	CollectionEntry,
+	CollectionPageResult,
+	DownloadCollection,
+	DownloadResult,
+	DownloadSuccess,
+	Job,
+} from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import { clientIdentity, isApiKey, rateLimitHeaders, requestApiKey, type RateLimitResult } from "@/lib/rate-limit";
+
+// Helpers shared by the versioned /api/v1 routes. Every route needs a key
+// from API_KEYS, is billed to that key's budgets, and fails with the same
+// { error, code } body as /api/proxy.
+
+// Who the request is billed to, or null without a known API key
+export function apiIdentity(headers: Headers) {
+	return isApiKey(requestApiKey(headers)) ? clientIdentity(headers) : null;
+}
+
+export function unauthorizedResponse() {
+	const response = errorResponse("UNAUTHORIZED", "A valid API key is required.");
+	response.headers.set("WWW-Authenticate", "Bearer");
+	return response;
+}
+
+// Body of a JSON POST, or null when it isn't a JSON object. Fields are
+// typed by name only, routes still check their values.
+export async function readJsonBody<T>(request: Request): Promise<{ [K in keyof T]?: unknown } | null> {
+	try {
+		const body = await request.json();
+		return typeof body === "object" && body !== null && !Array.isArray(body) ? body : null;
+	} catch {
+		return null;
+	}
+}
+
+// Results link to /api/proxy for the form. API clients get the same signed
+// token under /api/v1/download/:id, as an absolute URL.
+function toApiLink(link: string, origin: string) {
+	const url = new URL(link, origin);
+	const token = url.searchParams.get("token");
+	if (url.pathname !== "/api/proxy" || !token) return link;
+
+	url.searchParams.delete("token");
+	return `${origin}/api/v1/download/${token}${url.search}`;
+}
+
+function withEntryLinks(entries: CollectionEntry[], origin: string) {
+	return entries.map((entry) => ({ ...entry, downloadUrl: toApiLink(entry.downloadUrl, origin) }));
+}
+
+function withApiLinks(result: DownloadSuccess | DownloadCollection, origin: string): DownloadSuccess | DownloadCollection;
+function withApiLinks(result: DownloadResult | CollectionPageResult, origin: string): DownloadResult | CollectionPageResult;
+function withApiLinks(result: DownloadResult | CollectionPageResult, origin: string): DownloadResult | CollectionPageResult {
+	if (!result.success) return result;
+	if (!("kind" in result) || result.kind === "collection") {
+		return { ...result, entries: withEntryLinks(result.entries, origin) };
+	}
+	return {
+		...result,
+		downloadUrl: toApiLink(result.downloadUrl, origin),
+		previewUrl: result.previewUrl && toApiLink(result.previewUrl, origin),
+		audioUrl: result.audioUrl && toApiLink(result.audioUrl, origin),
+		mediaUrls: result.mediaUrls.map((item) => ({
+			...item,
+			downloadUrl: item.downloadUrl && toApiLink(item.downloadUrl, origin),
+		})),
+		subtitles: result.subtitles?.map((track) => ({ ...track, downloadUrl: toApiLink(track.downloadUrl, origin) })),
+	};
+}
+
+// A resolve result as an API response: the result itself with API download
+// links on success, the shared error body with its status on failure
+// `quota` is the budget the request was charged to, sent as RateLimit headers
+export function resultResponse(result: DownloadResult | CollectionPageResult, origin: string, quota?: RateLimitResult) {
+	const response = result.success
+		? NextResponse.json(withApiLinks(result, origin))
+		: errorResponse(result.code, result.message);
+	if (quota) {
+		for (const [name, value] of Object.entries(rateLimitHeaders(quota))) {
+			response.headers.set(name, value);
+		}
+	}
+	return response;
+}
+
+// A job with absolute links to its result and artifact
+export function withJobLinks(job: Job, origin: string): Job {
+	return {
+		...job,
+		result: job.result && withApiLinks(job.result, origin),
+		artifact: job.artifact && { ...job.artifact, downloadUrl: `${origin}${job.artifact.downloadUrl}` },
+	};
+}
+
+export function jobResponse(job: Job, origin: string, init?: ResponseInit) {
+	return NextResponse.json(withJobLinks(job, origin), init);
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import {
+	AUDIO_BITRATES,
+	AUDIO_FORMATS,
+	DEFAULT_AUDIO_BITRATE,
+	type AudioFormat,
+} from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { findExtractor, type StreamRequest } from "@/lib/extractors";
+import { runFfmpeg } from "@/lib/ffmpeg";
+import { generateFilename } from "@/lib/filename";
+
+const OUTPUTS: Record<AudioFormat, { contentType: string; extension: string; codec: string; encoder: string; muxer: string[] }> = {
+	mp3: { contentType: "audio/mpeg", extension: ".mp3", codec: "mp3", encoder: "libmp3lame", muxer: ["-f", "mp3"] },
+	m4a: {
+		contentType: "audio/mp4",
+		extension: ".m4a",
+		codec: "aac",
+		encoder: "aac",
+		muxer: ["-movflags", "frag_keyframe+empty_moov+default_base_moof", "-f", "mp4"],
+	},
+	opus: { contentType: "audio/ogg", extension: ".opus", codec: "opus", encoder: "libopus", muxer: ["-f", "ogg"] },
+};
+
+function parseAudioFormat(value: string | null): AudioFormat {
+	return AUDIO_FORMATS.find((f) => f === value) || "mp3";
+}
+
+function parseBitrate(value: string | null) {
+	const bitrate = Number(value);
+	return AUDIO_BITRATES.find((b) => b === bitrate) || DEFAULT_AUDIO_BITRATE;
+}
+
+// Serve only the audio track of a source (type=audio in /api/proxy).
+// The source extractor opens the media, ffmpeg drops the video track and
+// either copies the audio or transcodes it to the requested format.
+export async function streamAudio(request: StreamRequest): Promise<Response> {
+	const extractor = findExtractor(request.url);
+	if (!extractor?.openAudio) {
+		return errorResponse("UNSUPPORTED", "Audio extraction is not supported for this URL");
+	}
+
+	const format = parseAudioFormat(request.searchParams.get("format"));
+	const bitrate = parseBitrate(request.searchParams.get("bitrate"));
+	const output = OUTPUTS[format];
+
+	try {
+		const source = await extractor.openAudio(request, format);
+		const codecArgs = source.codec === output.codec
+			? ["-c:a", "copy"]
+			: ["-c:a", output.encoder, "-b:a", `${bitrate}k`];
+
+		let audioStream;
+		try {
+			audioStream = await runFfmpeg(
+				["-i", "pipe:3", "-vn", ...codecArgs, ...output.muxer, "pipe:1"],
+				[source.stream],
+				request.signal
+			);
+		} catch (error) {
+			source.stream.destroy();
+			throw new DownloadError("INTERNAL", "Audio extraction is not available on this server.", { cause: error });
+		}
+
+		return new NextResponse(
+			audioStream as unknown as ReadableStream,
+			{
+				headers: {
+					// Audio is extracted on the fly, so it can't be resumed
+					"Accept-Ranges": "none",
+					"Content-Type": output.contentType,
+					"Content-Disposition": generateFilename(source.title, output.extension),
+					"Cache-Control": "no-cache",
+					...(source.cache ? { "X-Cache": source.cache.toUpperCase() } : {}),
+				},
+			}
+		);
+	} catch (error) {
+		console.error(`${extractor.name} audio error:`, error);
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		return errorResponse("INTERNAL", "Failed to extract audio");
+	}
+}
@@ -0,0 +1,144 @@
+import puppeteerCore, { type Browser, type Page } from "puppeteer-core";
+import chromium from "@sparticuz/chromium";
+import { DownloadError } from "@/lib/errors";
+
+// One warm Chromium shared by every resolve, with a capped number of pages.
+// Pages are reused between requests and replaced after MAX_USES or when a
+// use fails unexpectedly; the browser is closed again once idle.
+
+const MAX_PAGES = Number(process.env.BROWSER_POOL_SIZE) || 2;
+const MAX_USES = Number(process.env.BROWSER_PAGE_MAX_USES) || 20;
+const IDLE_CLOSE_MS = Number(process.env.BROWSER_IDLE_CLOSE_MS) || 60 * 1000;
+
+interface PooledPage {
+	page: Page;
+	uses: number;
+}
+
+let browserPromise: Promise<Browser> | null = null;
+const idlePages: PooledPage[] = [];
+const waiters: (() => void)[] = [];
+let activePages = 0;
+let idleTimer: NodeJS.Timeout | undefined;
+
+async function launchBrowser() {
+	// Check if running locally or on Vercel
+	const isLocal = process.env.NODE_ENV === "development";
+
+	// Use puppeteer locally (has bundled Chromium), puppeteer-core on Vercel
+	let puppeteer = puppeteerCore;
+	if (isLocal) {
+		// Dynamically import puppeteer only in development
+		try {
+			puppeteer = await import("puppeteer").then(m => m.default);
+		} catch {
+			// Fallback to puppeteer-core if puppeteer not available
+		}
+	}
+
+	return puppeteer.launch({
+		args: isLocal
+			? ["--no-sandbox", "--disable-setuid-sandbox", "--disable-dev-shm-usage"]
+			: [
+				...chromium.args,
+				"--disable-gpu",
+				"--disable-dev-shm-usage",
+				"--single-process",
+				"--no-zygote",
+			],
+		executablePath: isLocal
+			? undefined // Use bundled Chromium locally
+			: await chromium.executablePath(),
+		headless: true,
+	});
+}
+
+function getBrowser() {
+	if (!browserPromise) {
+		const launching = launchBrowser();
+		browserPromise = launching;
+		launching.then(
+			(browser) => {
+				// A crashed browser takes its pages with it
+				browser.on("disconnected", () => {
+					if (browserPromise === launching) browserPromise = null;
+					idlePages.length = 0;
+				});
+			},
+			() => {
+				if (browserPromise === launching) browserPromise = null;
+			}
+		);
+	}
+	return browserPromise;
+}
+
+async function closeBrowser() {
+	const closing = browserPromise;
+	browserPromise = null;
+	idlePages.length = 0;
+	await (await closing?.catch(() => null))?.close().catch(() => {});
+}
+
+async function acquire(onLaunch?: () => void): Promise<PooledPage> {
+	while (activePages >= MAX_PAGES) {
+		await new Promise<void>((resolve) => waiters.push(resolve));
+	}
+	activePages++;
+	clearTimeout(idleTimer);
+
+	try {
+		let pooled = idlePages.pop();
+		while (pooled?.page.isClosed()) pooled = idlePages.pop();
+		if (pooled) return pooled;
+
+		if (!browserPromise) onLaunch?.();
+		const browser = await getBrowser();
+		return { page: await browser.newPage(), uses: 0 };
+	} catch (error) {
+		release(null);
+		throw error;
+	}
+}
+
+function release(pooled: PooledPage | null, reusable = false) {
+	activePages--;
+	if (pooled) {
+		if (reusable && pooled.uses < MAX_USES && !pooled.page.isClosed()) {
+			idlePages.push(pooled);
+		} else {
+			pooled.page.close().catch(() => {});
+		}
+	}
+
+	waiters.shift()?.();
+	if (activePages === 0) {
+		idleTimer = setTimeout(closeBrowser, IDLE_CLOSE_MS);
+		idleTimer.unref();
+	}
+}
+
+// Run `task` on a pooled page, waiting for a free one when all are busy.
+// A DownloadError is an expected outcome and keeps the page; anything else
+// may have left it broken, so it is replaced. `onLaunch` is called when
+// Chromium has to be started first.
+export async function withPage<T>(task: (page: Page) => Promise<T>, onLaunch?: () => void): Promise<T> {
+	const pooled = await acquire(onLaunch);
+	pooled.uses++;
+
+	let reusable = false;
+	try {
+		const result = await task(pooled.page);
+		reusable = true;
+		return result;
+	} catch (error) {
+		reusable = error instanceof DownloadError;
+		throw error;
+	} finally {
+		// Leave the page blank so the next use starts clean
+		if (reusable) {
+			reusable = await pooled.page.goto("about:blank").then(() => true, () => false);
+		}
+		release(pooled, reusable);
+	}
+}
@@ -0,0 +1,126 @@
+import type { CacheStatus, StageEvent } from "@/lib/download-result";
+import { createMemoryCache } from "./memory-store";
+import type { CacheStore } from "./types";
+
+export { createMemoryCache } from "./memory-store";
+export type { CacheStore } from "./types";
+
+// Resolution cache for extractors: page URL to upstream metadata, so the
+// proxy and repeat lookups skip ytdl.getInfo and Chromium launches.
+// Entries can be large (a YouTube video's format list runs to tens of KB).
+const MAX_ENTRIES = Number(process.env.RESOLVE_CACHE_MAX_ENTRIES) || 100;
+
+let store: CacheStore = createMemoryCache(MAX_ENTRIES);
+
+export function setCacheStore(next: CacheStore) {
+	store = next;
+}
+
+type StageListener = (event: StageEvent) => void;
+
+export interface CachedOptions {
+	// Leave the load when aborted, see `cached`
+	signal?: AbortSignal;
+	// Stages of the load, reported to every caller sharing it
+	onStage?: StageListener;
+}
+
+// A load already running, shared by concurrent misses for one key
+interface PendingLoad {
+	value: Promise<unknown>;
+	controller: AbortController;
+	// Callers still waiting for it, the load is aborted once all have left
+	waiters: number;
+	listeners: Set<StageListener>;
+	// Replayed to callers that join after it was reported
+	lastStage?: StageEvent;
+}
+
+const inFlight = new Map<string, PendingLoad>();
+
+// Wait for a shared load, leaving it when `signal` aborts
+function join(key: string, pending: PendingLoad, { signal, onStage }: CachedOptions) {
+	pending.waiters++;
+	if (onStage) {
+		pending.listeners.add(onStage);
+		if (pending.lastStage) onStage(pending.lastStage);
+	}
+	const stopListening = () => {
+		if (onStage) pending.listeners.delete(onStage);
+	};
+	if (!signal) return pending.value.finally(stopListening);
+
+	return new Promise<unknown>((resolve, reject) => {
+		const leave = () => {
+			stopListening();
+			if (--pending.waiters === 0) {
+				pending.controller.abort(signal.reason);
+				if (inFlight.get(key) === pending) inFlight.delete(key);
+			}
+			reject(signal.reason);
+		};
+		if (signal.aborted) return leave();
+		signal.addEventListener("abort", leave, { once: true });
+		pending.value.then(resolve, reject).finally(() => {
+			stopListening();
+			signal.removeEventListener("abort", leave);
+		});
+	});
+}
+
+// Return the cached value for `key`, or load and cache it for `ttlMs`.
+// Failed loads are not cached. Concurrent misses share one load, whose
+// stages reach every caller and whose signal aborts once every caller's
+// `signal` has.
+export async function cached<T>(
+	key: string,
+	ttlMs: number,
+	load: (signal: AbortSignal, onStage: StageListener) => Promise<T>,
+	options: CachedOptions = {}
+): Promise<{ value: T; status: CacheStatus }> {
+	options.signal?.throwIfAborted();
+	const hit = await store.get(key);
+	if (hit !== undefined) return { value: hit as T, status: "hit" };
+
+	let pending = inFlight.get(key);
+	if (!pending) {
+		const controller = new AbortController();
+		const started: PendingLoad = { value: Promise.resolve(), controller, waiters: 0, listeners: new Set() };
+		const report = (event: StageEvent) => {
+			started.lastStage = event;
+			for (const listener of started.listeners) listener(event);
+		};
+		started.value = load(controller.signal, report).then(async (value) => {
+			await store.set(key, value, ttlMs);
+			return value;
+		});
+		inFlight.set(key, started);
+		const done = () => {
+			if (inFlight.get(key) === started) inFlight.delete(key);
+		};
+		started.value.then(done, done);
+		pending = started;
+	}
+	return { value: (await join(key, pending, options)) as T, status: "miss" };
+}
+
+// Query params that only track where a link was shared from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|igsh|igshid|mibextid|si|feature|rdid|share_url)$/i;
+
+// Cache key for a page URL: host without www/m, no trailing slash, tracking
+// params dropped and the rest sorted
+export function urlCacheKey(namespace: string, url: string) {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return `${namespace}:${url}`;
+	}
+
+	const params = [...parsed.searchParams]
+		.filter(([name]) => !TRACKING_PARAMS.test(name))
+		.sort(([a], [b]) => a.localeCompare(b));
+	const query = params.length > 0 ? `?${new URLSearchParams(params)}` : "";
+	const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, "");
+	return `${namespace}:${host}${parsed.pathname.replace(/\/+$/, "")}${query}`;
+}
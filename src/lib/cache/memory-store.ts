@@ -0,0 +1,29 @@
+import type { CacheStore } from "./types";
+
+interface Entry {
+	value: unknown;
+	expiresAt: number;
+}
+
+// Least-recently-used eviction on top of Map's insertion order
+export function createMemoryCache(maxEntries: number): CacheStore {
+	const entries = new Map<string, Entry>();
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) return undefined;
+			entries.delete(key);
+			if (entry.expiresAt <= Date.now()) return undefined;
+			entries.set(key, entry);
+			return entry.value;
+		},
+		async set(key, value, ttlMs) {
+			entries.delete(key);
+			entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+			while (entries.size > maxEntries) {
+				entries.delete(entries.keys().next().value!);
+			}
+		},
+	};
+}
@@ -0,0 +1,6 @@
+// Where resolved media metadata is kept between requests. Values are plain
+// JSON-compatible objects, so a shared backend can serialize them.
+export interface CacheStore {
+	get(key: string): Promise<unknown | undefined>;
+	set(key: string, value: unknown, ttlMs: number): Promise<void>;
+}
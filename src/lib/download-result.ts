@@ -0,0 +1,440 @@
+// Shared contract between the downloadContent action, /api/proxy and the UI.
+// Kept free of server-only imports so client components can use it.
+
+import { isErrorCode, type ErrorCode } from "@/lib/errors";
+
+export type { ErrorCode } from "@/lib/errors";
+
+export type MediaKind = "video" | "image" | "audio";
+
+export type ContentType = "Video" | "Reel" | "Post" | "Profile";
+
+export type CollectionType = "Playlist" | "Channel";
+
+export interface MediaItem {
+	url: string;
+	type: MediaKind;
+	quality: string;
+	thumbnail?: string;
+	// Proxy link for this item alone, whether the result holds one item or
+	// several. Unset for items that are only listed, not served.
+	downloadUrl?: string;
+}
+
+export type AudioFormat = "mp3" | "m4a" | "opus";
+
+export const AUDIO_FORMATS: readonly AudioFormat[] = ["mp3", "m4a", "opus"];
+
+// Bitrates (kbps) offered when transcoding audio
+export const AUDIO_BITRATES = [96, 128, 192, 256, 320] as const;
+
+export const DEFAULT_AUDIO_BITRATE = 192;
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export const SUBTITLE_FORMATS: readonly SubtitleFormat[] = ["srt", "vtt"];
+
+// A caption track, downloaded through `downloadUrl` with a `format` param
+export interface SubtitleTrack {
+	language: string;
+	// Display name from the platform, e.g. "English (auto-generated)"
+	name: string;
+	// Speech recognition rather than captions uploaded by the creator
+	autoGenerated: boolean;
+	downloadUrl: string;
+}
+
+// One downloadable rendition, passed back to /api/proxy as `quality`
+export interface FormatOption {
+	itag: number;
+	label: string;
+	container: string;
+	codec: string;
+	bitrate?: number;
+	fps?: number;
+	height?: number;
+	// Exact size when the platform reports it, otherwise estimated from bitrate
+	sizeBytes?: number;
+	hasVideo: boolean;
+	hasAudio: boolean;
+}
+
+// Details about the source in the same shape for every platform, shown in
+// the form and saved as sidecar files. Fields a platform doesn't expose are
+// left out.
+export interface MediaMetadata {
+	// Extractor id, e.g. "youtube"
+	platform: string;
+	// The page the media was resolved from
+	sourceUrl: string;
+	// The platform's own id for the video or post
+	id?: string;
+	author?: string;
+	authorUrl?: string;
+	durationSeconds?: number;
+	viewCount?: number;
+	likeCount?: number;
+	// ISO 8601 date or date-time
+	publishedAt?: string;
+	// Full description or caption
+	description?: string;
+}
+
+// Whether a result was served from the resolution cache, for debugging
+export type CacheStatus = "hit" | "miss";
+
+export interface DownloadSuccess {
+	success: true;
+	kind: "media";
+	message: string;
+	downloadUrl: string;
+	type: ContentType;
+	mediaType: MediaKind;
+	title: string;
+	thumbnail?: string;
+	mediaUrls: MediaItem[];
+	formats?: FormatOption[];
+	// Proxy link served by byte range, for a seekable player. Unset when
+	// every rendition has to be merged on the fly.
+	previewUrl?: string;
+	// Proxy link for audio-only mode, takes `format` and `bitrate` params
+	audioUrl?: string;
+	subtitles?: SubtitleTrack[];
+	metadata: MediaMetadata;
+	cache?: CacheStatus;
+}
+
+// A video in a playlist or channel
+export interface CollectionEntry {
+	id: string;
+	url: string;
+	downloadUrl: string;
+	title: string;
+	durationSeconds?: number;
+	thumbnail?: string;
+}
+
+// Playlists and channels resolve to a page of entries rather than media
+export interface DownloadCollection {
+	success: true;
+	kind: "collection";
+	message: string;
+	type: CollectionType;
+	// Extractor id to pass back to loadMoreEntries
+	source: string;
+	title: string;
+	thumbnail?: string;
+	entries: CollectionEntry[];
+	// Opaque cursor for the next page, absent on the last page
+	nextPage?: string;
+}
+
+export interface CollectionPage {
+	success: true;
+	entries: CollectionEntry[];
+	nextPage?: string;
+}
+
+export interface DownloadFailure {
+	success: false;
+	code: ErrorCode;
+	message: string;
+}
+
+export type DownloadResult = DownloadSuccess | DownloadCollection | DownloadFailure;
+
+export type CollectionPageResult = CollectionPage | DownloadFailure;
+
+// Query params a client may add to a download link, everything else about
+// the link is signed
+export interface ProxyParams {
+	// A format's itag, or "best" (see FormatOption)
+	quality?: string;
+	// Output of audio (type=audio) and subtitle (type=subtitles) links
+	format?: AudioFormat | SubtitleFormat;
+	// kbps for transcoded audio, one of AUDIO_BITRATES
+	bitrate?: number;
+	// Container for merged video and audio
+	container?: "mp4" | "mkv";
+}
+
+export function setProxyParams(query: URLSearchParams, params: ProxyParams) {
+	for (const [key, value] of Object.entries(params)) {
+		if (value !== undefined) query.set(key, String(value));
+	}
+}
+
+// JSON body accepted by POST /api/v1/resolve
+export interface ResolveRequestBody {
+	url: string;
+}
+
+// JSON body accepted by POST /api/v1/entries, from a collection result
+export interface EntriesRequestBody {
+	source: string;
+	// The collection's or previous page's `nextPage`
+	cursor: string;
+}
+
+// JSON body accepted by POST /api/zip, items are /api/proxy or /api/v1/download links
+export interface ZipRequestBody {
+	name?: string;
+	items: string[];
+}
+
+// JSON body /api/proxy responds with when a download can't be served
+export interface ProxyErrorBody {
+	error: string;
+	code: ErrorCode;
+}
+
+// Steps a resolve or download goes through, streamed to the form and to
+// job subscribers as they happen. Stages a request doesn't need are skipped.
+export type ProgressStage = "validating" | "fetching_page" | "launching_browser" | "extracting_formats" | "downloading" | "muxing";
+
+export const PROGRESS_STAGES: readonly ProgressStage[] = [
+	"validating",
+	"fetching_page",
+	"launching_browser",
+	"extracting_formats",
+	"downloading",
+	"muxing",
+];
+
+export interface StageEvent {
+	stage: ProgressStage;
+	// 0-100, for stages that can tell
+	percent?: number;
+}
+
+export type JobKind = "resolve" | "download" | "zip";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export const JOB_KINDS: readonly JobKind[] = ["resolve", "download", "zip"];
+export const JOB_STATUSES: readonly JobStatus[] = ["queued", "running", "succeeded", "failed", "cancelled"];
+
+// Jobs accepted by POST /api/v1/jobs. Links are downloadUrls from a resolve
+// result, under /api/proxy or /api/v1/download.
+interface JobRequestOptions {
+	// Receives a signed JobCallbackPayload once the job succeeds or fails
+	callbackUrl?: string;
+}
+
+export interface ResolveJobRequest extends JobRequestOptions {
+	kind: "resolve";
+	url: string;
+}
+
+export interface DownloadJobRequest extends JobRequestOptions {
+	kind: "download";
+	link: string;
+	params?: ProxyParams;
+}
+
+export interface ZipJobRequest extends JobRequestOptions {
+	kind: "zip";
+	name?: string;
+	items: string[];
+}
+
+export type JobRequestBody = ResolveJobRequest | DownloadJobRequest | ZipJobRequest;
+
+export interface JobProgress {
+	received: number;
+	// Absent when the size isn't known upfront
+	total?: number;
+}
+
+// The file a download or zip job produced
+export interface JobArtifact {
+	filename: string;
+	contentType: string;
+	size: number;
+	downloadUrl: string;
+}
+
+export type CallbackEvent = "job.succeeded" | "job.failed";
+
+export type CallbackState = "pending" | "delivered" | "failed" | "skipped";
+
+export const CALLBACK_EVENTS: readonly CallbackEvent[] = ["job.succeeded", "job.failed"];
+export const CALLBACK_STATES: readonly CallbackState[] = ["pending", "delivered", "failed", "skipped"];
+
+// One POST to a job's callbackUrl
+export interface CallbackDelivery {
+	event: CallbackEvent;
+	attempt: number;
+	at: string;
+	// Receiver's response status, absent when it couldn't be reached
+	status?: number;
+	error?: string;
+	durationMs: number;
+}
+
+export interface JobCallback {
+	url: string;
+	// Pending until a delivery got a 2xx response or all attempts failed.
+	// Skipped when the job was cancelled.
+	state: CallbackState;
+	deliveries: CallbackDelivery[];
+}
+
+export interface Job {
+	id: string;
+	kind: JobKind;
+	status: JobStatus;
+	// Runs so far, including the current one
+	attempts: number;
+	// Latest stage of the current run
+	stage?: StageEvent;
+	progress?: JobProgress;
+	// Set once a resolve job succeeds
+	result?: DownloadSuccess | DownloadCollection;
+	// Set once a download or zip job succeeds
+	artifact?: JobArtifact;
+	// Set once the job failed for good
+	error?: ProxyErrorBody;
+	createdAt: string;
+	updatedAt: string;
+	// When the job and its artifact are deleted
+	expiresAt: string;
+	callback?: JobCallback;
+}
+
+// Body POSTed to a job's callbackUrl, signed in the X-Webhook-Signature
+// header as `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` keyed
+// with the API key the job was submitted with
+export interface JobCallbackPayload {
+	event: CallbackEvent;
+	job: Job;
+}
+
+export const MEDIA_KINDS: readonly MediaKind[] = ["video", "image", "audio"];
+export const CONTENT_TYPES: readonly ContentType[] = ["Video", "Reel", "Post", "Profile"];
+export const COLLECTION_TYPES: readonly CollectionType[] = ["Playlist", "Channel"];
+
+export function failure(code: ErrorCode, message: string): DownloadFailure {
+	return { success: false, code, message };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+function includes<T extends string>(list: readonly T[], value: unknown): value is T {
+	return typeof value === "string" && (list as readonly string[]).includes(value);
+}
+
+// Check an untrusted value against the DownloadResult contract.
+// Returns a list of problems, empty when the value is valid.
+export function validateDownloadResult(value: unknown): string[] {
+	if (!isRecord(value)) return ["result is not an object"];
+
+	const problems: string[] = [];
+	if (typeof value.message !== "string") problems.push("message must be a string");
+
+	if (value.success === false) {
+		if (!isErrorCode(value.code)) problems.push(`unknown error code: ${String(value.code)}`);
+		return problems;
+	}
+
+	if (value.success !== true) return [...problems, "success must be a boolean"];
+
+	if (value.kind === "collection") {
+		if (!includes(COLLECTION_TYPES, value.type)) problems.push(`unknown collection type: ${String(value.type)}`);
+		if (typeof value.source !== "string") problems.push("source must be a string");
+		if (typeof value.title !== "string") problems.push("title must be a string");
+		if (value.nextPage !== undefined && typeof value.nextPage !== "string") problems.push("nextPage must be a string");
+		if (!Array.isArray(value.entries)) {
+			problems.push("entries must be an array");
+		} else {
+			value.entries.forEach((entry, i) => {
+				if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.url !== "string" || typeof entry.downloadUrl !== "string" || typeof entry.title !== "string") {
+					problems.push(`entries[${i}] is not a valid entry`);
+				}
+			});
+		}
+		return problems;
+	}
+
+	if (value.kind !== "media") problems.push(`unknown result kind: ${String(value.kind)}`);
+	if (typeof value.downloadUrl !== "string" || !value.downloadUrl) problems.push("downloadUrl must be a non-empty string");
+	if (!includes(CONTENT_TYPES, value.type)) problems.push(`unknown content type: ${String(value.type)}`);
+	if (!includes(MEDIA_KINDS, value.mediaType)) problems.push(`unknown media type: ${String(value.mediaType)}`);
+	if (typeof value.title !== "string") problems.push("title must be a string");
+	if (value.thumbnail !== undefined && typeof value.thumbnail !== "string") problems.push("thumbnail must be a string");
+	if (value.previewUrl !== undefined && typeof value.previewUrl !== "string") problems.push("previewUrl must be a string");
+	if (value.audioUrl !== undefined && typeof value.audioUrl !== "string") problems.push("audioUrl must be a string");
+	if (value.cache !== undefined && value.cache !== "hit" && value.cache !== "miss") problems.push(`unknown cache status: ${String(value.cache)}`);
+
+	if (!Array.isArray(value.mediaUrls)) {
+		problems.push("mediaUrls must be an array");
+	} else {
+		value.mediaUrls.forEach((item, i) => {
+			if (
+				!isRecord(item) ||
+				typeof item.url !== "string" ||
+				!includes(MEDIA_KINDS, item.type) ||
+				typeof item.quality !== "string" ||
+				(item.thumbnail !== undefined && typeof item.thumbnail !== "string") ||
+				(item.downloadUrl !== undefined && typeof item.downloadUrl !== "string")
+			) {
+				problems.push(`mediaUrls[${i}] is not a valid media item`);
+			}
+		});
+	}
+
+	if (value.formats !== undefined) {
+		if (!Array.isArray(value.formats)) {
+			problems.push("formats must be an array");
+		} else {
+			value.formats.forEach((format, i) => {
+				if (
+					!isRecord(format) ||
+					typeof format.itag !== "number" ||
+					typeof format.label !== "string" ||
+					typeof format.container !== "string" ||
+					typeof format.hasVideo !== "boolean" ||
+					typeof format.hasAudio !== "boolean"
+				) {
+					problems.push(`formats[${i}] is not a valid format`);
+				}
+			});
+		}
+	}
+
+	if (!isRecord(value.metadata)) {
+		problems.push("metadata must be an object");
+	} else {
+		const metadata = value.metadata;
+		if (typeof metadata.platform !== "string") problems.push("metadata.platform must be a string");
+		if (typeof metadata.sourceUrl !== "string") problems.push("metadata.sourceUrl must be a string");
+		for (const key of ["id", "author", "authorUrl", "publishedAt", "description"]) {
+			if (metadata[key] !== undefined && typeof metadata[key] !== "string") problems.push(`metadata.${key} must be a string`);
+		}
+		for (const key of ["durationSeconds", "viewCount", "likeCount"]) {
+			if (metadata[key] !== undefined && typeof metadata[key] !== "number") problems.push(`metadata.${key} must be a number`);
+		}
+	}
+
+	if (value.subtitles !== undefined) {
+		if (!Array.isArray(value.subtitles)) {
+			problems.push("subtitles must be an array");
+		} else {
+			value.subtitles.forEach((track, i) => {
+				if (
+					!isRecord(track) ||
+					typeof track.language !== "string" ||
+					typeof track.name !== "string" ||
+					typeof track.autoGenerated !== "boolean" ||
+					typeof track.downloadUrl !== "string"
+				) {
+					problems.push(`subtitles[${i}] is not a valid subtitle track`);
+				}
+			});
+		}
+	}
+
+	return problems;
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { before, test } from "node:test";
+
+// The secret and TTL are read when the module loads, so it is imported
+// after the environment is set
+process.env.DOWNLOAD_TOKEN_SECRET = "test-secret";
+process.env.DOWNLOAD_TOKEN_TTL_SECONDS = "60";
+
+let tokens: typeof import("@/lib/download-token");
+
+before(async () => {
+	tokens = await import("@/lib/download-token");
+});
+
+const PARAMS = { url: "https://www.instagram.com/reel/abc/", type: "reel", media_url: "https://scontent.cdninstagram.com/v.mp4" };
+
+test("a token carries its params", () => {
+	assert.deepEqual(tokens.verifyDownloadToken(tokens.createDownloadToken(PARAMS)), PARAMS);
+});
+
+test("tampered tokens are rejected", () => {
+	const token = tokens.createDownloadToken(PARAMS);
+	const [data, signature] = token.split(".");
+
+	// Other params under the original signature
+	const payload = JSON.parse(Buffer.from(data, "base64url").toString());
+	payload.p.media_url = "https://169.254.169.254/latest/meta-data/";
+	const forged = `${Buffer.from(JSON.stringify(payload)).toString("base64url")}.${signature}`;
+	assert.throws(() => tokens.verifyDownloadToken(forged), { code: "INVALID_URL" });
+
+	// A later expiry under the original signature
+	payload.p = PARAMS;
+	payload.exp += 3600;
+	const extended = `${Buffer.from(JSON.stringify(payload)).toString("base64url")}.${signature}`;
+	assert.throws(() => tokens.verifyDownloadToken(extended), { code: "INVALID_URL" });
+
+	assert.throws(() => tokens.verifyDownloadToken(`${data}.${signature.slice(1)}`), { code: "INVALID_URL" });
+	assert.throws(() => tokens.verifyDownloadToken(data), { code: "INVALID_URL" });
+	assert.throws(() => tokens.verifyDownloadToken(""), { code: "INVALID_URL" });
+});
+
+test("tokens expire after their TTL", (t) => {
+	let now = Date.now();
+	t.mock.method(Date, "now", () => now);
+	const token = tokens.createDownloadToken(PARAMS);
+
+	now += 59 * 1000;
+	assert.deepEqual(tokens.verifyDownloadToken(token), PARAMS);
+	now += 2 * 1000;
+	assert.throws(() => tokens.verifyDownloadToken(token), { code: "LINK_EXPIRED" });
+});
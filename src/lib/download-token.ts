@@ -0,0 +1,62 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { DownloadError } from "@/lib/errors";
+
+// /api/proxy links carry the resolved media reference (page URL, proxy type,
+// CDN URL) in an HMAC-signed, expiring token instead of plain query params,
+// so the proxy only serves what downloadContent resolved.
+
+const TTL_SECONDS = Number(process.env.DOWNLOAD_TOKEN_TTL_SECONDS) || 60 * 60;
+
+let secret = process.env.DOWNLOAD_TOKEN_SECRET;
+if (!secret) {
+	// Links then stop working on restart and across instances
+	console.warn("DOWNLOAD_TOKEN_SECRET is not set, using a random per-process secret");
+	secret = randomBytes(32).toString("hex");
+}
+const SECRET = secret;
+
+interface TokenPayload {
+	// Signed query params
+	p: Record<string, string>;
+	// Expiry, seconds since the epoch
+	exp: number;
+}
+
+function sign(data: string) {
+	return createHmac("sha256", SECRET).update(data).digest("base64url");
+}
+
+export function createDownloadToken(params: Record<string, string>) {
+	const payload: TokenPayload = { p: params, exp: Math.floor(Date.now() / 1000) + TTL_SECONDS };
+	const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+	return `${data}.${sign(data)}`;
+}
+
+// Returns the signed params, throws LINK_EXPIRED once the token is past its
+// expiry and INVALID_URL when it was not issued by this server
+export function verifyDownloadToken(token: string): Record<string, string> {
+	const [data, signature] = token.split(".");
+	const expected = Buffer.from(sign(data ?? ""));
+	const actual = Buffer.from(signature ?? "");
+	if (!data || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+		throw new DownloadError("INVALID_URL", "Invalid download link");
+	}
+
+	const payload: TokenPayload = JSON.parse(Buffer.from(data, "base64url").toString());
+	if (payload.exp * 1000 < Date.now()) {
+		throw new DownloadError("LINK_EXPIRED", "This download link has expired");
+	}
+	return payload.p;
+}
+
+// Build a /api/proxy link. `signed` params identify the media and can't be
+// changed by the client, `extra` ones are preferences like `quality` the UI
+// may override.
+export function proxyLink(signed: Record<string, string | undefined>, extra: Record<string, string> = {}) {
+	const params: Record<string, string> = {};
+	for (const [key, value] of Object.entries(signed)) {
+		if (value !== undefined) params[key] = value;
+	}
+	const query = new URLSearchParams({ token: createDownloadToken(params), ...extra });
+	return `/api/proxy?${query}`;
+}
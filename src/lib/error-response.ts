@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import type { ProxyErrorBody } from "@/lib/download-result";
+import { ERROR_STATUS, type ErrorCode } from "@/lib/errors";
+
+// JSON error response for API routes, status derived from the error code
+export function errorResponse(code: ErrorCode, message: string) {
+	return NextResponse.json<ProxyErrorBody>(
+		{ error: message, code },
+		{ status: ERROR_STATUS[code] }
+	);
+}
@@ -0,0 +1,98 @@
+// Machine-readable failure reasons shared by the server action, /api/proxy
+// and the UI. Kept free of server-only imports so client components can use it.
+
+export type ErrorCode =
+	| "INVALID_URL"
+	| "UNSUPPORTED"
+	| "PRIVATE"
+	| "AGE_RESTRICTED"
+	| "BOT_BLOCKED"
+	| "TIMEOUT"
+	| "UPSTREAM_HTTP"
+	| "FORBIDDEN_HOST"
+	| "UNAUTHORIZED"
+	| "LINK_EXPIRED"
+	| "NOT_FOUND"
+	| "NOT_READY"
+	| "RATE_LIMITED"
+	| "NO_FORMATS"
+	| "TOO_LARGE"
+	| "INTERNAL";
+
+export const ERROR_CODES: readonly ErrorCode[] = [
+	"INVALID_URL",
+	"UNSUPPORTED",
+	"PRIVATE",
+	"AGE_RESTRICTED",
+	"BOT_BLOCKED",
+	"TIMEOUT",
+	"UPSTREAM_HTTP",
+	"FORBIDDEN_HOST",
+	"UNAUTHORIZED",
+	"LINK_EXPIRED",
+	"NOT_FOUND",
+	"NOT_READY",
+	"RATE_LIMITED",
+	"NO_FORMATS",
+	"TOO_LARGE",
+	"INTERNAL",
+];
+
+// HTTP status each code maps to when returned from an API route
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+	INVALID_URL: 400,
+	UNSUPPORTED: 422,
+	PRIVATE: 403,
+	AGE_RESTRICTED: 403,
+	BOT_BLOCKED: 503,
+	TIMEOUT: 504,
+	UPSTREAM_HTTP: 502,
+	FORBIDDEN_HOST: 403,
+	UNAUTHORIZED: 401,
+	LINK_EXPIRED: 410,
+	NOT_FOUND: 404,
+	NOT_READY: 409,
+	RATE_LIMITED: 429,
+	NO_FORMATS: 404,
+	TOO_LARGE: 413,
+	INTERNAL: 500,
+};
+
+// Extra guidance the UI shows under the error message
+export const ERROR_HELP: Record<ErrorCode, string> = {
+	INVALID_URL: "Check that you copied the full link, including https://.",
+	UNSUPPORTED: "We currently support YouTube, Instagram and Facebook links.",
+	PRIVATE: "Only public content can be downloaded. Make sure the post or video is not private or deleted.",
+	AGE_RESTRICTED: "Age-restricted videos require signing in and can't be downloaded.",
+	BOT_BLOCKED: "The platform is temporarily blocking automated requests. Please try again in a few minutes.",
+	TIMEOUT: "The platform took too long to respond. Please try again.",
+	UPSTREAM_HTTP: "The platform returned an unexpected response. Please try again later.",
+	FORBIDDEN_HOST: "Media can only be fetched from the supported platforms' servers.",
+	UNAUTHORIZED: "Send a valid API key in the Authorization or X-API-Key header.",
+	LINK_EXPIRED: "Download links are only valid for a while. Paste the link again to get a fresh one.",
+	NOT_FOUND: "It may have expired or been deleted. Check the link and try again.",
+	NOT_READY: "The job hasn't finished yet. Check its status and try again once it has succeeded.",
+	RATE_LIMITED: "To keep the service fair for everyone, downloads are limited per user. Please wait a little before trying again.",
+	NO_FORMATS: "No downloadable media was found for this link.",
+	TOO_LARGE: "That's too much to download at once. Try selecting fewer items.",
+	INTERNAL: "Something went wrong on our side. Please try again.",
+};
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+	return typeof value === "string" && (ERROR_CODES as readonly string[]).includes(value);
+}
+
+// Thrown by extractors when they know why a request failed
+export class DownloadError extends Error {
+	readonly code: ErrorCode;
+
+	constructor(code: ErrorCode, message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = "DownloadError";
+		this.code = code;
+	}
+
+	get status() {
+		return ERROR_STATUS[this.code];
+	}
+}
@@ -0,0 +1,15 @@
+// Error messages
+export const ERROR_MESSAGES = {
+	INVALID_URL: "Please provide a valid URL",
+	UNSUPPORTED_PLATFORM: "Unsupported URL. Please try a YouTube, Instagram, or Facebook URL.",
+	YOUTUBE_INVALID: "Invalid YouTube URL",
+	YOUTUBE_FAILED: "Failed to process YouTube video. The video might be private, age-restricted, or unavailable.",
+	INSTAGRAM_INVALID: "Invalid Instagram URL",
+	INSTAGRAM_PRIVATE: "The Instagram content appears to be private, deleted, or unavailable.",
+	FACEBOOK_INVALID: "Invalid Facebook URL",
+	FACEBOOK_FAILED: "Failed to process Facebook content. The video might be private or restricted.",
+	GENERIC_ERROR: "Failed to download content. Please try again.",
+};
+
+export const BROWSER_USER_AGENT =
+	"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
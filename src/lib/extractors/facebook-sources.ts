@@ -0,0 +1,120 @@
+import { parseMpd } from "@/lib/manifest";
+
+// Facebook hands its player the video URLs in JSON, both in the page's
+// server-rendered data and in later GraphQL responses. These helpers pick
+// the progressive MP4s and DASH tracks out of either, plus raw .mpd files,
+// and the owner, duration and publish time that travel alongside them.
+
+export interface DashTrack {
+	url: string;
+	kind: "video" | "audio";
+	bandwidth: number;
+	height?: number;
+	// Facebook's own label, e.g. "720p"
+	label?: string;
+}
+
+export interface VideoSources {
+	// Progressive MP4s with audio
+	hd?: string;
+	sd?: string;
+	// Separate video and audio tracks from a DASH manifest
+	dash: DashTrack[];
+}
+
+export interface VideoDetails {
+	author?: string;
+	durationSeconds?: number;
+	// ISO 8601
+	publishedAt?: string;
+}
+
+const HD_KEYS = ["playable_url_quality_hd", "browser_native_hd_url", "hd_src"];
+const SD_KEYS = ["playable_url", "browser_native_sd_url", "sd_src", "video_url"];
+
+export function emptySources(): VideoSources {
+	return { dash: [] };
+}
+
+export function hasSources(sources: VideoSources) {
+	return Boolean(sources.hd || sources.sd || sources.dash.some((track) => track.kind === "video"));
+}
+
+// First non-empty value of a JSON string property anywhere in `text`
+function jsonString(text: string, key: string) {
+	const pattern = new RegExp(`"${key}":"((?:[^"\\\\]|\\\\.)*)"`, "g");
+	for (const match of text.matchAll(pattern)) {
+		try {
+			const value: string = JSON.parse(`"${match[1]}"`);
+			if (value) return value;
+		} catch {
+			// Not valid JSON escaping, keep looking
+		}
+	}
+	return undefined;
+}
+
+// First number value of a JSON property anywhere in `text`
+function jsonNumber(text: string, key: string) {
+	const match = text.match(new RegExp(`"${key}":(\\d+(?:\\.\\d+)?)`));
+	return match ? Number(match[1]) : undefined;
+}
+
+// Tracks of a DASH manifest. Facebook serves each representation as one
+// file under its BaseURL, so only single-file representations are kept.
+export function parseDashManifest(xml: string): DashTrack[] {
+	let manifest;
+	try {
+		manifest = parseMpd(xml, "https://www.facebook.com/");
+	} catch {
+		return [];
+	}
+
+	return manifest.renditions
+		.filter((rendition) => rendition.kind !== "muxed" && !rendition.init && rendition.segments.length === 1 && !rendition.segments[0].range)
+		.map((rendition) => ({
+			url: rendition.segments[0].url,
+			kind: rendition.kind === "audio" ? "audio" : "video",
+			bandwidth: rendition.bandwidth,
+			height: rendition.height,
+			label: rendition.label,
+		}));
+}
+
+// Merge whatever `text` (HTML or a GraphQL payload) reveals into `sources`
+export function collectSources(sources: VideoSources, text: string) {
+	sources.hd ??= HD_KEYS.map((key) => jsonString(text, key)).find(Boolean);
+	sources.sd ??= SD_KEYS.map((key) => jsonString(text, key)).find(Boolean);
+
+	const manifest = jsonString(text, "dash_manifest");
+	if (manifest) addDashTracks(sources, parseDashManifest(manifest));
+}
+
+// Merge the video's details found in `text` into `details`
+export function collectDetails(details: VideoDetails, text: string) {
+	const owner = text.match(/"(?:video_)?owner":\{"__typename":"(?:User|Page)"[^{}]*?"name":"((?:[^"\\]|\\.)*)"/)?.[1];
+	if (owner && !details.author) {
+		try {
+			details.author = JSON.parse(`"${owner}"`);
+		} catch {
+			// Not valid JSON escaping
+		}
+	}
+
+	const durationMs = jsonNumber(text, "playable_duration_in_ms");
+	details.durationSeconds ??= durationMs ? Math.round(durationMs / 1000) : undefined;
+
+	const publishTime = jsonNumber(text, "publish_time") ?? jsonNumber(text, "creation_time");
+	details.publishedAt ??= publishTime ? new Date(publishTime * 1000).toISOString() : undefined;
+}
+
+export function addDashTracks(sources: VideoSources, tracks: DashTrack[]) {
+	for (const track of tracks) {
+		if (!sources.dash.some((t) => t.url === track.url)) sources.dash.push(track);
+	}
+}
+
+// Highest bandwidth first
+export function bestTracks(sources: VideoSources, kind: DashTrack["kind"]) {
+	return sources.dash.filter((t) => t.kind === kind).sort((a, b) => b.bandwidth - a.bandwidth);
+}
@@ -0,0 +1,414 @@
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { NextResponse } from "next/server";
+import { TimeoutError, type HTTPResponse } from "puppeteer-core";
+import { withPage } from "@/lib/browser-pool";
+import { cached, urlCacheKey } from "@/lib/cache";
+import { failure, type DownloadResult, type MediaItem } from "@/lib/download-result";
+import { proxyLink } from "@/lib/download-token";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { MUX_CONTAINERS, muxStreams, trackInputProgress } from "@/lib/ffmpeg";
+import { generateFilename } from "@/lib/filename";
+import { FACEBOOK_PAGE_HOSTS, isPageUrl } from "@/lib/media-hosts";
+import { upstreamRangeHeaders } from "@/lib/range";
+import { MEDIA_LIMITS, safeFetch } from "@/lib/safe-fetch";
+import { BROWSER_USER_AGENT, ERROR_MESSAGES } from "./constants";
+import {
+	addDashTracks,
+	bestTracks,
+	collectDetails,
+	collectSources,
+	emptySources,
+	hasSources,
+	parseDashManifest,
+	type VideoDetails,
+	type VideoSources,
+} from "./facebook-sources";
+import type { AudioSource, ExtractOptions, Extractor, StageReporter, StreamRequest } from "./types";
+
+const URL_PATTERN = /(?:facebook\.com|fb\.com|fb\.watch)/i;
+
+function isReelUrl(url: string) {
+	return url.includes("/reel/") || url.includes("/reels/") || url.includes("fb.watch");
+}
+
+function toDownloadError(error: unknown): DownloadError {
+	if (error instanceof DownloadError) return error;
+
+	if (error instanceof TimeoutError) {
+		return new DownloadError("TIMEOUT", "Request timed out. Facebook videos may take longer to process. Please try again or use a shorter video.", { cause: error });
+	}
+
+	// Chromium reports navigation failures as net::ERR_* messages
+	const message = error instanceof Error ? error.message : "";
+	if (message.includes("net::")) {
+		return new DownloadError("UPSTREAM_HTTP", "Could not access Facebook. The video might be private, deleted, or require login.", { cause: error });
+	}
+	return new DownloadError("INTERNAL", ERROR_MESSAGES.FACEBOOK_FAILED, { cause: error });
+}
+
+interface VideoData {
+	title: string;
+	thumbnail: string;
+	description: string;
+	sources: VideoSources;
+	details: VideoDetails;
+}
+
+// Facebook's CDN links stay valid for days, an hour saves most repeat
+// Chromium launches without serving stale pages
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// How long to wait for the player's network requests to reveal the video
+const PLAYER_WAIT_MS = 5000;
+
+// DASH renditions offered when there's no progressive file
+const MAX_DASH_VARIANTS = 4;
+
+// Load the page in a pooled headless Chromium and collect every video URL
+// it reveals, from the server-rendered data and from the player's own
+// GraphQL and manifest requests. Aborting closes the page, which fails
+// whatever it was waiting for.
+function scrapeVideo(cleanUrl: string, signal: AbortSignal, onStage?: StageReporter): Promise<VideoData> {
+	return withPage(async (page) => {
+		signal.throwIfAborted();
+		const closePage = () => page.close().catch(() => {});
+		signal.addEventListener("abort", closePage, { once: true });
+		const sources = emptySources();
+		const details: VideoDetails = {};
+		const reads: Promise<void>[] = [];
+		let markFound = () => {};
+		const found = new Promise<void>((resolve) => {
+			markFound = resolve;
+		});
+
+		const onResponse = (response: HTTPResponse) => {
+			const responseUrl = response.url();
+			const isManifest = (response.headers()["content-type"] ?? "").includes("dash+xml") || /\.mpd(\?|$)/.test(responseUrl);
+			if (!isManifest && !responseUrl.includes("/api/graphql")) return;
+
+			reads.push(response.text().then(
+				(text) => {
+					if (isManifest) addDashTracks(sources, parseDashManifest(text));
+					else {
+						collectSources(sources, text);
+						collectDetails(details, text);
+					}
+					if (hasSources(sources)) markFound();
+				},
+				() => {
+					// Body no longer available, e.g. the page navigated away
+				}
+			));
+		};
+		page.on("response", onResponse);
+
+		try {
+			// Set shorter timeout for serverless
+			page.setDefaultTimeout(15000);
+
+			// Set user agent to look like a real browser
+			await page.setUserAgent(BROWSER_USER_AGENT);
+
+			// Navigate to the Facebook video page with shorter timeout
+			onStage?.({ stage: "fetching_page" });
+			const pageResponse = await page.goto(cleanUrl, {
+				waitUntil: "domcontentloaded", // Changed from networkidle2 for faster loading
+				timeout: 15000
+			});
+
+			if (pageResponse && !pageResponse.ok()) {
+				throw pageResponse.status() === 404
+					? new DownloadError("PRIVATE", "This Facebook video was not found. It might be private or deleted.")
+					: new DownloadError("UPSTREAM_HTTP", `Facebook responded with status ${pageResponse.status()}.`);
+			}
+
+			// Facebook redirects to its login wall for content that isn't public
+			if (page.url().includes("/login")) {
+				throw new DownloadError("PRIVATE", "This Facebook video requires login. Only public videos can be downloaded.");
+			}
+
+			// The server-rendered data usually has the URLs already, otherwise
+			// wait for the player to fetch them
+			onStage?.({ stage: "extracting_formats" });
+			const html = await page.content();
+			collectSources(sources, html);
+			collectDetails(details, html);
+			if (!hasSources(sources)) {
+				let timer: NodeJS.Timeout | undefined;
+				try {
+					await Promise.race([found, new Promise((resolve) => (timer = setTimeout(resolve, PLAYER_WAIT_MS)))]);
+				} finally {
+					clearTimeout(timer);
+				}
+			}
+			await Promise.all(reads);
+
+			const meta = await page.evaluate(() => {
+				// Try to get title from meta tags
+				const titleMeta = document.querySelector('meta[property="og:title"]');
+				const title = titleMeta?.getAttribute("content") || document.title || "Facebook Video";
+
+				// Try to get thumbnail
+				const thumbMeta = document.querySelector('meta[property="og:image"]');
+				const thumbnail = thumbMeta?.getAttribute("content") || "";
+
+				const descriptionMeta = document.querySelector('meta[property="og:description"]');
+				const description = descriptionMeta?.getAttribute("content") || "";
+
+				// Usually a blob: URL fed by DASH, only useful when it isn't
+				const videoElement = document.querySelector("video");
+				const videoSrc = videoElement?.src || videoElement?.querySelector("source")?.src || "";
+
+				return { title, thumbnail, description, videoSrc };
+			});
+
+			if (meta.videoSrc.startsWith("http")) {
+				sources.sd ??= meta.videoSrc;
+			}
+
+			if (!hasSources(sources)) {
+				throw new DownloadError("NO_FORMATS", "Could not find video URL. The video might be private or require login.");
+			}
+			return { title: meta.title, thumbnail: meta.thumbnail, description: meta.description, sources, details };
+		} finally {
+			page.off("response", onResponse);
+			signal.removeEventListener("abort", closePage);
+		}
+	}, () => onStage?.({ stage: "launching_browser" }));
+}
+
+// One downloadable item per rendition: the progressive HD and SD files, or
+// for DASH-only videos each video track merged with the best audio track
+function videoVariants(url: string, sources: VideoSources): MediaItem[] {
+	const progressive = [
+		{ quality: "HD", mediaUrl: sources.hd },
+		{ quality: "SD", mediaUrl: sources.sd !== sources.hd ? sources.sd : undefined },
+	];
+	const variants = progressive
+		.filter((variant): variant is { quality: string; mediaUrl: string } => Boolean(variant.mediaUrl))
+		.map(({ quality, mediaUrl }): MediaItem => ({
+			url: mediaUrl,
+			type: "video",
+			quality,
+			downloadUrl: proxyLink({ url, type: "facebook", media_url: mediaUrl }),
+		}));
+	if (variants.length > 0) return variants;
+
+	const audio = bestTracks(sources, "audio")[0];
+	const labels = new Set<string>();
+	for (const track of bestTracks(sources, "video")) {
+		const quality = track.label || (track.height ? `${track.height}p` : "DASH");
+		if (labels.has(quality)) continue;
+		labels.add(quality);
+		variants.push({
+			url: track.url,
+			type: "video",
+			quality,
+			downloadUrl: audio
+				? proxyLink({ url, type: "facebook", video_url: track.url, audio_url: audio.url })
+				: proxyLink({ url, type: "facebook", media_url: track.url }),
+		});
+	}
+	return variants.slice(0, MAX_DASH_VARIANTS);
+}
+
+// Only progressive files are served by range, DASH tracks need merging.
+// SD is enough for a preview.
+function previewLink(url: string, sources: VideoSources) {
+	const progressive = sources.sd || sources.hd;
+	return progressive ? proxyLink({ url, type: "facebook", media_url: progressive }) : undefined;
+}
+
+function audioLink(url: string, sources: VideoSources) {
+	const progressive = sources.hd || sources.sd;
+	if (progressive) return proxyLink({ url, type: "audio", media_url: progressive });
+	const audio = bestTracks(sources, "audio")[0];
+	return audio ? proxyLink({ url, type: "audio", audio_url: audio.url }) : undefined;
+}
+
+async function extract(url: string, { onStage, signal, chargeBrowser }: ExtractOptions = {}): Promise<DownloadResult> {
+	try {
+		const cleanUrl = url.trim();
+		// The page is opened in the browser, so only Facebook's own hosts
+		if (!isPageUrl(cleanUrl, FACEBOOK_PAGE_HOSTS)) {
+			return failure("INVALID_URL", ERROR_MESSAGES.FACEBOOK_INVALID);
+		}
+
+		// Check if it's a reel
+		const isReel = isReelUrl(cleanUrl);
+
+		const { value: videoData, status } = await cached(
+			urlCacheKey("facebook", cleanUrl),
+			CACHE_TTL_MS,
+			async (loadSignal, loadStage) => {
+				await chargeBrowser?.();
+				return scrapeVideo(cleanUrl, loadSignal, loadStage);
+			},
+			{ signal, onStage }
+		);
+
+		const variants = videoVariants(cleanUrl, videoData.sources);
+		if (variants.length === 0) {
+			return failure("NO_FORMATS", "Could not find video URL. The video might be private or require login.");
+		}
+
+		return {
+			success: true,
+			kind: "media",
+			message: `${isReel ? "Reel" : "Video"} ready for download`,
+			downloadUrl: variants[0].downloadUrl!,
+			type: isReel ? "Reel" : "Video",
+			mediaType: "video",
+			title: videoData.title || (isReel ? "Facebook Reel" : "Facebook Video"),
+			thumbnail: videoData.thumbnail || "/placeholder.svg?height=300&width=500",
+			mediaUrls: variants,
+			previewUrl: previewLink(cleanUrl, videoData.sources),
+			audioUrl: audioLink(cleanUrl, videoData.sources),
+			metadata: {
+				platform: "facebook",
+				sourceUrl: cleanUrl,
+				id: cleanUrl.match(/(?:videos|reels?|watch\/?\?v=)\/?(\d+)/)?.[1],
+				...videoData.details,
+				description: videoData.description || undefined,
+			},
+			cache: status,
+		};
+	} catch (error) {
+		console.error("Error handling Facebook:", error);
+		const downloadError = toDownloadError(error);
+		return failure(downloadError.code, downloadError.message);
+	}
+}
+
+async function fetchVideo(mediaUrl: string, signal: AbortSignal, range: string | null = null) {
+	// Fetch video content directly from the extracted URL, forwarding any
+	// Range so resumed downloads are served by the CDN
+	const videoResponse = await safeFetch(mediaUrl, {
+		headers: {
+			"User-Agent": BROWSER_USER_AGENT,
+			"Accept": "video/mp4,video/webm,video/*;q=0.9,*/*;q=0.8",
+			"Accept-Language": "en-US,en;q=0.5",
+			"Referer": "https://www.facebook.com/",
+			...(range ? { Range: range } : {}),
+		},
+		signal,
+	}, MEDIA_LIMITS);
+
+	if (videoResponse.status === 416) return videoResponse;
+	if (!videoResponse.ok || !videoResponse.body) {
+		throw new DownloadError("UPSTREAM_HTTP", `Facebook responded with status ${videoResponse.status}.`);
+	}
+	return videoResponse;
+}
+
+function toReadable(response: Response) {
+	return Readable.fromWeb(response.body as WebReadableStream);
+}
+
+// DASH tracks are video-only and audio-only, so they're merged on the fly
+async function streamDash(url: string, videoUrl: string, audioUrl: string, signal: AbortSignal, onStage?: StageReporter) {
+	// When one track fails, the other's body is cancelled before rethrowing
+	const [videoResult, audioResult] = await Promise.allSettled([fetchVideo(videoUrl, signal), fetchVideo(audioUrl, signal)]);
+	if (videoResult.status === "rejected" || audioResult.status === "rejected") {
+		await Promise.all([videoResult, audioResult].map((result) => result.status === "fulfilled" ? result.value.body?.cancel() : undefined));
+		throw videoResult.status === "rejected" ? videoResult.reason : (audioResult as PromiseRejectedResult).reason;
+	}
+	const video = videoResult.value;
+	const audio = audioResult.value;
+	const inputs = [toReadable(video), toReadable(audio)];
+
+	const totalBytes = Number(video.headers.get("content-length")) + Number(audio.headers.get("content-length"));
+	if (onStage && totalBytes > 0) {
+		trackInputProgress(inputs, totalBytes, (percent) => onStage({ stage: "muxing", percent }));
+	} else {
+		onStage?.({ stage: "muxing" });
+	}
+
+	let output;
+	try {
+		output = await muxStreams(inputs[0], inputs[1], "mp4", signal);
+	} catch (error) {
+		await Promise.all([video.body?.cancel(), audio.body?.cancel()]);
+		throw new DownloadError("INTERNAL", "Merging video and audio is not available on this server.", { cause: error });
+	}
+
+	return new NextResponse(
+		output as unknown as ReadableStream,
+		{
+			headers: {
+				// Muxed output is produced on the fly, so it can't be resumed
+				"Accept-Ranges": "none",
+				"Content-Type": MUX_CONTAINERS.mp4.contentType,
+				"Content-Disposition": generateFilename(isReelUrl(url) ? "Facebook Reel" : "Facebook Video", MUX_CONTAINERS.mp4.extension),
+				"Cache-Control": "no-store, no-cache",
+			},
+		}
+	);
+}
+
+async function stream({ url, mediaUrl, searchParams, range, signal, onStage }: StreamRequest): Promise<Response> {
+	// The media URLs were extracted by Puppeteer in extract()
+	const videoUrl = searchParams.get("video_url");
+	const audioUrl = searchParams.get("audio_url");
+	if (!mediaUrl && !(videoUrl && audioUrl)) {
+		return errorResponse("INVALID_URL", "Missing media URL");
+	}
+
+	try {
+		if (videoUrl && audioUrl) {
+			return await streamDash(url, videoUrl, audioUrl, signal, onStage);
+		}
+
+		const upstream = await fetchVideo(mediaUrl!, signal, range);
+		if (upstream.status === 416) {
+			return new NextResponse(null, { status: 416, headers: upstreamRangeHeaders(upstream) });
+		}
+
+		return new NextResponse(
+			upstream.body,
+			{
+				status: upstream.status,
+				headers: {
+					...upstreamRangeHeaders(upstream),
+					"Content-Type": "video/mp4",
+					"Content-Disposition": generateFilename(isReelUrl(url) ? "Facebook Reel" : "Facebook Video", ".mp4"),
+					"Cache-Control": "no-store, no-cache",
+				},
+			}
+		);
+	} catch (error) {
+		console.error("Facebook video error:", error);
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		return errorResponse("INTERNAL", "Failed to download Facebook video");
+	}
+}
+
+async function openAudio({ url, mediaUrl, searchParams, signal }: StreamRequest): Promise<AudioSource> {
+	// DASH-only videos have a separate AAC audio track
+	const audioUrl = searchParams.get("audio_url");
+	if (!mediaUrl && !audioUrl) {
+		throw new DownloadError("INVALID_URL", "Missing media URL");
+	}
+
+	const response = await fetchVideo((audioUrl || mediaUrl)!, signal);
+	return {
+		stream: toReadable(response),
+		title: isReelUrl(url) ? "Facebook Reel" : "Facebook Video",
+		codec: audioUrl ? "aac" : undefined,
+	};
+}
+
+export const facebookExtractor: Extractor = {
+	id: "facebook",
+	name: "Facebook",
+	proxyTypes: ["facebook"],
+	usesBrowser: true,
+	matches: (url) => URL_PATTERN.test(url),
+	extract,
+	stream,
+	openAudio,
+};
@@ -0,0 +1,14 @@
+import { registerExtractor } from "./registry";
+import { youtubeExtractor } from "./youtube";
+import { instagramExtractor } from "./instagram";
+import { facebookExtractor } from "./facebook";
+
+// Built-in extractors. In-house extractors can call registerExtractor()
+// from their own module and be imported alongside this one.
+registerExtractor(youtubeExtractor);
+registerExtractor(instagramExtractor);
+registerExtractor(facebookExtractor);
+
+export { registerExtractor, getExtractors, findExtractor, findExtractorByProxyType } from "./registry";
+export { ERROR_MESSAGES } from "./constants";
+export type { AudioSource, ExtractOptions, Extractor, StageReporter, StreamRequest, SubtitleCue, SubtitleSource } from "./types";
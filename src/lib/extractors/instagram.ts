@@ -0,0 +1,315 @@
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { NextResponse } from "next/server";
+import { instagramGetUrl, type InstagramResponse } from "instagram-url-direct";
+import { cached, urlCacheKey } from "@/lib/cache";
+import { failure, type DownloadResult, type MediaItem, type MediaMetadata } from "@/lib/download-result";
+import { proxyLink } from "@/lib/download-token";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { generateFilename } from "@/lib/filename";
+import { INSTAGRAM_PAGE_HOSTS, isPageUrl } from "@/lib/media-hosts";
+import { upstreamRangeHeaders } from "@/lib/range";
+import { MEDIA_LIMITS, safeFetch, type SafeFetchLimits } from "@/lib/safe-fetch";
+import { ERROR_MESSAGES } from "./constants";
+import type { AudioSource, ExtractOptions, Extractor, StreamRequest } from "./types";
+
+const URL_PATTERN = /instagram\.com/i;
+
+// CDN links carry their own expiry, usually days out; an hour keeps
+// captions and slide lists reasonably fresh
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Post pages read by the fallback extraction
+const PAGE_LIMITS: SafeFetchLimits = {
+	contentTypes: ["text/html"],
+	maxBytes: 5 * 1024 * 1024,
+	hosts: INSTAGRAM_PAGE_HOSTS,
+};
+const PAGE_TIMEOUT_MS = 15 * 1000;
+
+// instagram-url-direct wraps every failure in a plain Error, so the reason
+// has to be recovered from the message here.
+function toDownloadError(error: unknown): DownloadError {
+	if (error instanceof DownloadError) return error;
+
+	const message = error instanceof Error ? error.message : "";
+
+	if (/status code (429|403)/.test(message)) {
+		return new DownloadError("BOT_BLOCKED", "Instagram is rate limiting requests. Please try again in a few minutes.", { cause: error });
+	}
+	if (/private|Only posts\/reels supported/i.test(message)) {
+		return new DownloadError("PRIVATE", ERROR_MESSAGES.INSTAGRAM_PRIVATE, { cause: error });
+	}
+	if (/timeout|ETIMEDOUT/i.test(message)) {
+		return new DownloadError("TIMEOUT", "Instagram took too long to respond. Please try again.", { cause: error });
+	}
+	const status = message.match(/status code (\d{3})/)?.[1];
+	if (status) {
+		return new DownloadError("UPSTREAM_HTTP", `Instagram responded with status ${status}.`, { cause: error });
+	}
+	return new DownloadError("INTERNAL", "Failed to process Instagram content. Please try again.", { cause: error });
+}
+
+// Instagram's API gives no publish date or duration for posts
+function postMetadata(url: string, response: InstagramResponse): MediaMetadata {
+	const info = response.post_info;
+	const username = info?.owner_username;
+	return {
+		platform: "instagram",
+		sourceUrl: url,
+		id: url.match(/\/(?:p|reels?)\/([\w-]+)/)?.[1],
+		author: info?.owner_fullname || username || undefined,
+		authorUrl: username ? `https://www.instagram.com/${username}/` : undefined,
+		viewCount: response.media_details?.[0]?.video_view_count,
+		likeCount: typeof info?.likes === "number" ? info.likes : undefined,
+		description: info?.caption || undefined,
+	};
+}
+
+async function extract(url: string, { onStage, signal }: ExtractOptions = {}): Promise<DownloadResult> {
+	try {
+		const cleanUrl = url.split("?")[0].replace(/\/$/, "");
+
+		if (!isPageUrl(cleanUrl, INSTAGRAM_PAGE_HOSTS)) {
+			return failure("INVALID_URL", ERROR_MESSAGES.INSTAGRAM_INVALID);
+		}
+
+		onStage?.({ stage: "fetching_page" });
+		let response;
+		let cacheStatus;
+		try {
+			({ value: response, status: cacheStatus } = await cached(
+				urlCacheKey("instagram", cleanUrl),
+				CACHE_TTL_MS,
+				// The library can't be aborted, but the caller stops waiting
+				() => instagramGetUrl(cleanUrl),
+				{ signal }
+			));
+		} catch (libError) {
+			// Try fallback extraction for reels
+			if (cleanUrl.includes("/reel/") || cleanUrl.includes("/reels/")) {
+				const fallback = await extractInstagramMedia(cleanUrl, signal);
+				if (fallback) return fallback;
+			}
+			throw libError;
+		}
+
+		if (!response?.url_list?.length) {
+			return failure("PRIVATE", ERROR_MESSAGES.INSTAGRAM_PRIVATE);
+		}
+		onStage?.({ stage: "extracting_formats" });
+
+		const urlList = response.url_list;
+		// Support both /reel/ and /reels/ URL patterns
+		const isReel = cleanUrl.includes("/reel/") || cleanUrl.includes("/reels/");
+		const isPost = cleanUrl.includes("/p/");
+
+		// Prefer video URLs for reels
+		let mediaUrl = urlList[0];
+		if (isReel) {
+			const videoUrl = urlList.find((u: string) => u.includes(".mp4"));
+			if (videoUrl) mediaUrl = videoUrl;
+		}
+
+		const isVideo = mediaUrl.includes(".mp4");
+		const mediaType = isVideo ? "video" : "image";
+
+		let title = "Instagram Content";
+		let contentType: "Reel" | "Post" | "Profile" = "Post";
+		let thumbnail = "/placeholder.svg?height=300&width=500";
+
+		if (isReel) {
+			title = response.post_info?.caption || "Instagram Reel";
+			contentType = "Reel";
+			const rawThumb = response.media_details?.[0]?.thumbnail;
+			if (rawThumb) thumbnail = `/api/image-proxy?url=${encodeURIComponent(rawThumb)}`;
+		} else if (isPost) {
+			title = response.post_info?.caption || "Instagram Post";
+			contentType = "Post";
+			const rawThumb = response.media_details?.[0]?.url;
+			if (rawThumb) thumbnail = `/api/image-proxy?url=${encodeURIComponent(rawThumb)}`;
+		} else {
+			const username = cleanUrl.split("/")[3] || "unknown";
+			title = `Profile Photo: @${username}`;
+			contentType = "Profile";
+			const rawThumb = response.media_details?.[0]?.url;
+			if (rawThumb) thumbnail = `/api/image-proxy?url=${encodeURIComponent(rawThumb)}`;
+		}
+
+		const typeForProxy = isReel ? "reel" : isPost ? "post" : "profile";
+		const downloadUrl = proxyLink({ url: cleanUrl, type: typeForProxy, media_url: mediaUrl });
+
+		return {
+			success: true,
+			kind: "media",
+			message: urlList.length > 1
+				? `${contentType} with ${urlList.length} items ready for download`
+				: `${contentType} ready for download`,
+			downloadUrl,
+			// Instagram files are served as they are, by range
+			previewUrl: isVideo ? downloadUrl : undefined,
+			type: contentType,
+			mediaType,
+			title,
+			thumbnail,
+			audioUrl: isVideo
+				? proxyLink({ url: cleanUrl, type: "audio", media_url: mediaUrl })
+				: undefined,
+			// Carousel posts list every slide, each with its own download link
+			mediaUrls: urlList.map((u: string, i: number): MediaItem => {
+				const details = response.media_details?.[i];
+				const isItemVideo = details?.type === "video" || u.includes(".mp4");
+				const rawThumb = isItemVideo ? details?.thumbnail : details?.url;
+				return {
+					url: u,
+					type: isItemVideo ? "video" : "image",
+					quality: u.includes("1080") ? "high" : "standard",
+					thumbnail: rawThumb ? `/api/image-proxy?url=${encodeURIComponent(rawThumb)}` : undefined,
+					downloadUrl: proxyLink({ url: cleanUrl, type: typeForProxy, media_url: u, index: String(i + 1) }),
+				};
+			}),
+			metadata: postMetadata(cleanUrl, response),
+			cache: cacheStatus,
+		};
+	} catch (error) {
+		console.error("Error handling Instagram:", error);
+		const downloadError = toDownloadError(error);
+		return failure(downloadError.code, downloadError.message);
+	}
+}
+
+// Fallback extraction for Instagram reels
+async function extractInstagramMedia(url: string, signal?: AbortSignal): Promise<DownloadResult | null> {
+	try {
+		const page = new URL(url);
+		page.protocol = "https:";
+		const response = await safeFetch(page.href, {
+			headers: {
+				"User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+				"Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+				"Accept-Language": "en-US,en;q=0.5",
+				"Referer": "https://www.instagram.com/",
+			},
+			signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(PAGE_TIMEOUT_MS)]) : AbortSignal.timeout(PAGE_TIMEOUT_MS),
+		}, PAGE_LIMITS);
+
+		if (!response.ok) return null;
+
+		const html = await response.text();
+
+		const patterns = [
+			/<meta property="og:video" content="([^"]+)"/i,
+			/<meta property="og:video:url" content="([^"]+)"/i,
+			/"video_url":"([^"]+)"/i,
+		];
+
+		for (const pattern of patterns) {
+			const match = html.match(pattern);
+			if (match?.[1]?.includes("http")) {
+				const videoUrl = match[1].replace(/\\u0026/g, "&").replace(/\\\//g, "/");
+				const titleMatch = html.match(/<meta property="og:title" content="([^"]+)"/i);
+				const thumbMatch = html.match(/<meta property="og:image" content="([^"]+)"/i);
+
+				const downloadUrl = proxyLink({ url, type: "reel", media_url: videoUrl });
+				return {
+					success: true,
+					kind: "media",
+					message: "Instagram reel ready for download",
+					downloadUrl,
+					previewUrl: downloadUrl,
+					type: "Reel",
+					mediaType: "video",
+					title: titleMatch?.[1] || "Instagram Reel",
+					thumbnail: thumbMatch?.[1] ? `/api/image-proxy?url=${encodeURIComponent(thumbMatch[1])}` : "/placeholder.svg",
+					mediaUrls: [{ url: videoUrl, type: "video", quality: "high" }],
+					audioUrl: proxyLink({ url, type: "audio", media_url: videoUrl }),
+					metadata: {
+						platform: "instagram",
+						sourceUrl: url,
+						description: html.match(/<meta property="og:description" content="([^"]+)"/i)?.[1],
+					},
+				};
+			}
+		}
+		return null;
+	} catch (error) {
+		console.error("Fallback extraction failed:", error);
+		return null;
+	}
+}
+
+// The CDN honours Range itself, so a client's range is forwarded as-is
+async function fetchMedia(mediaUrl: string, signal: AbortSignal, range: string | null = null) {
+	const response = await safeFetch(mediaUrl, {
+		headers: {
+			"User-Agent":
+				"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+			Referer: "https://www.instagram.com/",
+			...(range ? { Range: range } : {}),
+		},
+		signal,
+	}, MEDIA_LIMITS);
+
+	if (response.status === 416) return response;
+	if (!response.ok || !response.body) {
+		throw new DownloadError("UPSTREAM_HTTP", `Instagram responded with status ${response.status}.`);
+	}
+	return response;
+}
+
+async function stream({ type, mediaUrl, searchParams, range, signal }: StreamRequest): Promise<Response> {
+	if (!mediaUrl) {
+		return errorResponse("INVALID_URL", "Missing media URL");
+	}
+
+	const isVideo = mediaUrl.includes(".mp4");
+	const contentType = isVideo ? "video/mp4" : "image/jpeg";
+	const extension = isVideo ? ".mp4" : ".jpg";
+	// Position of the slide within a carousel post
+	const index = searchParams.get("index");
+
+	try {
+		const upstream = await fetchMedia(mediaUrl, signal, range);
+		if (upstream.status === 416) {
+			return new NextResponse(null, { status: 416, headers: upstreamRangeHeaders(upstream) });
+		}
+
+		return new NextResponse(upstream.body, {
+			status: upstream.status,
+			headers: {
+				...upstreamRangeHeaders(upstream),
+				"Content-Type": contentType,
+				"Content-Disposition": generateFilename(
+					index ? `instagram-${type}-${index}` : `instagram-${type}`,
+					extension
+				),
+			},
+		});
+	} catch (error) {
+		console.error(`Instagram ${type} download error:`, error);
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		return errorResponse("INTERNAL", `Failed to download Instagram ${type}`);
+	}
+}
+
+async function openAudio({ mediaUrl, signal }: StreamRequest): Promise<AudioSource> {
+	if (!mediaUrl?.includes(".mp4")) {
+		throw new DownloadError("NO_FORMATS", "Only Instagram videos have an audio track.");
+	}
+
+	const { body } = await fetchMedia(mediaUrl, signal);
+	return { stream: Readable.fromWeb(body as WebReadableStream), title: "instagram-audio" };
+}
+
+export const instagramExtractor: Extractor = {
+	id: "instagram",
+	name: "Instagram",
+	proxyTypes: ["reel", "post", "profile"],
+	matches: (url) => URL_PATTERN.test(url),
+	extract,
+	stream,
+	openAudio,
+};
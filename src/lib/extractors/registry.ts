@@ -0,0 +1,32 @@
+import type { Extractor } from "./types";
+
+const extractors: Extractor[] = [];
+
+// Register an extractor. Extractors are consulted in registration order,
+// pass `prepend` to take precedence over the built-in ones. Registering an
+// id twice replaces the earlier extractor (keeps dev hot reloads working).
+export function registerExtractor(extractor: Extractor, options: { prepend?: boolean } = {}) {
+	const existing = extractors.findIndex((e) => e.id === extractor.id);
+	if (existing !== -1) {
+		extractors.splice(existing, 1);
+	}
+	if (options.prepend) {
+		extractors.unshift(extractor);
+	} else {
+		extractors.push(extractor);
+	}
+}
+
+export function getExtractors(): readonly Extractor[] {
+	return extractors;
+}
+
+// Find the extractor that handles a page URL
+export function findExtractor(url: string): Extractor | undefined {
+	return extractors.find((e) => e.matches(url));
+}
+
+// Find the extractor that serves a /api/proxy `type`
+export function findExtractorByProxyType(type: string): Extractor | undefined {
+	return extractors.find((e) => e.proxyTypes.includes(type));
+}
@@ -0,0 +1,77 @@
+import type { Readable } from "stream";
+import type { AudioFormat, CacheStatus, CollectionPage, DownloadResult, StageEvent } from "@/lib/download-result";
+
+// Called as a resolve or download moves through its stages
+export type StageReporter = (event: StageEvent) => void;
+
+export interface ExtractOptions {
+	onStage?: StageReporter;
+	// Aborted when the caller no longer wants the result, e.g. the form
+	// closed its event stream
+	signal?: AbortSignal;
+	// Called right before a browser is launched, so only on a cache miss.
+	// Throws RATE_LIMITED once the caller's browser budget is spent.
+	chargeBrowser?: () => Promise<void>;
+}
+
+// Query parameters /api/proxy received for a download
+export interface StreamRequest {
+	url: string;
+	type: string;
+	quality: string | null;
+	mediaUrl: string | null;
+	searchParams: URLSearchParams;
+	// Range header sent by the client, if resuming or seeking
+	range: string | null;
+	// Aborted when the client disconnects
+	signal: AbortSignal;
+	onStage?: StageReporter;
+}
+
+// Media opened for audio extraction (type=audio in /api/proxy)
+export interface AudioSource {
+	stream: Readable;
+	title: string;
+	// Codec of the audio track when known, lets ffmpeg copy instead of re-encode
+	codec?: "aac" | "opus" | "mp3";
+	// Whether the source was resolved from the cache, when it had to be resolved
+	cache?: CacheStatus;
+}
+
+export interface SubtitleCue {
+	startMs: number;
+	endMs: number;
+	text: string;
+}
+
+// Caption track opened for conversion (type=subtitles in /api/proxy)
+export interface SubtitleSource {
+	cues: SubtitleCue[];
+	title: string;
+	language: string;
+	cache?: CacheStatus;
+}
+
+export interface Extractor {
+	// Stable identifier, e.g. "youtube"
+	id: string;
+	// Human readable platform name shown in messages
+	name: string;
+	// Values of the `type` query param this extractor serves in /api/proxy
+	proxyTypes: readonly string[];
+	// Resolving launches a headless browser, billed to its own rate-limit
+	// budget through ExtractOptions.chargeBrowser
+	usesBrowser?: boolean;
+	// Whether this extractor understands the given page URL
+	matches(url: string): boolean;
+	// Resolve a page URL into downloadable media
+	extract(url: string, options?: ExtractOptions): Promise<DownloadResult>;
+	// Stream the media back to the client for /api/proxy
+	stream(request: StreamRequest): Promise<Response>;
+	// Fetch the next page of a playlist/channel from a collection's `nextPage`
+	loadMore?(cursor: string, signal?: AbortSignal): Promise<CollectionPage>;
+	// Open the media whose audio track should be extracted, if supported
+	openAudio?(request: StreamRequest, format: AudioFormat): Promise<AudioSource>;
+	// Open the caption track named by the link's `track` param, if supported
+	openSubtitles?(request: StreamRequest): Promise<SubtitleSource>;
+}
@@ -0,0 +1,231 @@
+import type { CollectionEntry, CollectionType, DownloadCollection, CollectionPage } from "@/lib/download-result";
+import { proxyLink } from "@/lib/download-token";
+import { DownloadError } from "@/lib/errors";
+import { BROWSER_USER_AGENT } from "./constants";
+
+// ytdl-core only understands single videos, so playlists and channels are
+// read from the page's ytInitialData and paged through the innertube API.
+
+interface Cursor {
+	token: string;
+	apiKey: string;
+	clientVersion: string;
+}
+
+// For the page and each innertube call, longer is reported as a timeout
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+const CHANNEL_PATH = /^\/(?:@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)(?:\/(?:videos|featured|streams|shorts))?\/?$/;
+
+function parseUrl(url: string) {
+	try {
+		return new URL(url);
+	} catch {
+		return null;
+	}
+}
+
+// A `list=` without a `v=` is a playlist, a watch URL inside a playlist
+// is still treated as the single video
+function collectionType(url: string): CollectionType | null {
+	const parsed = parseUrl(url);
+	if (!parsed || !/(^|\.)youtube\.com$/i.test(parsed.hostname)) return null;
+	if (parsed.searchParams.has("list") && !parsed.searchParams.has("v")) return "Playlist";
+	if (CHANNEL_PATH.test(parsed.pathname)) return "Channel";
+	return null;
+}
+
+export function isCollectionUrl(url: string) {
+	return collectionType(url) !== null;
+}
+
+function encodeCursor(cursor: Cursor) {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor {
+	try {
+		const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+		if (typeof cursor.token === "string" && typeof cursor.apiKey === "string" && typeof cursor.clientVersion === "string") {
+			return cursor;
+		}
+	} catch {
+		// fall through
+	}
+	throw new DownloadError("INVALID_URL", "Invalid page cursor");
+}
+
+function parseDuration(text: string | undefined) {
+	if (!text) return undefined;
+	const seconds = text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+	return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+function textOf(value: unknown): string | undefined {
+	const text = value as { simpleText?: string; runs?: { text: string }[] } | undefined;
+	return text?.simpleText ?? text?.runs?.map((run) => run.text).join("");
+}
+
+interface VideoRenderer {
+	videoId?: string;
+	title?: unknown;
+	lengthSeconds?: string;
+	lengthText?: unknown;
+	thumbnail?: { thumbnails?: { url: string }[] };
+}
+
+function toEntry(renderer: VideoRenderer): CollectionEntry | null {
+	if (!renderer.videoId) return null;
+	const url = `https://www.youtube.com/watch?v=${renderer.videoId}`;
+	return {
+		id: renderer.videoId,
+		url,
+		downloadUrl: proxyLink({ url, type: "youtube" }),
+		title: textOf(renderer.title) || "Untitled video",
+		durationSeconds: renderer.lengthSeconds ? Number(renderer.lengthSeconds) : parseDuration(textOf(renderer.lengthText)),
+		thumbnail: renderer.thumbnail?.thumbnails?.at(-1)?.url,
+	};
+}
+
+// Walk an innertube payload collecting video renderers and the continuation
+// token, which sit at different depths for playlists, channels and pages
+function collectItems(data: unknown) {
+	const entries: CollectionEntry[] = [];
+	let token: string | undefined;
+
+	const visit = (node: unknown) => {
+		if (Array.isArray(node)) {
+			node.forEach(visit);
+			return;
+		}
+		if (typeof node !== "object" || node === null) return;
+
+		for (const [key, value] of Object.entries(node)) {
+			if (key === "playlistVideoRenderer" || key === "videoRenderer" || key === "gridVideoRenderer") {
+				const entry = toEntry(value as VideoRenderer);
+				if (entry && !entries.some((e) => e.id === entry.id)) entries.push(entry);
+			} else if (key === "continuationItemRenderer") {
+				token ??= (value as { continuationEndpoint?: { continuationCommand?: { token?: string } } })
+					.continuationEndpoint?.continuationCommand?.token;
+			} else {
+				visit(value);
+			}
+		}
+	};
+
+	visit(data);
+	return { entries, token };
+}
+
+async function fetchPage(url: string, signal?: AbortSignal) {
+	const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+	const response = await fetch(url, {
+		signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+		headers: {
+			"User-Agent": BROWSER_USER_AGENT,
+			"Accept-Language": "en-US,en;q=0.9",
+		},
+	});
+
+	if (response.status === 404) {
+		throw new DownloadError("PRIVATE", "This playlist or channel does not exist or is private.");
+	}
+	if (!response.ok) {
+		throw new DownloadError("UPSTREAM_HTTP", `YouTube responded with status ${response.status}.`);
+	}
+	return response.text();
+}
+
+function extractInitialData(html: string) {
+	const match = html.match(/(?:var ytInitialData|window\["ytInitialData"\])\s*=\s*(\{[\s\S]+?\});\s*<\/script>/);
+	if (!match) {
+		throw new DownloadError("NO_FORMATS", "Could not read the playlist or channel page.");
+	}
+	// The match ends at the first `};</script>`, which may be inside a string
+	try {
+		return JSON.parse(match[1]);
+	} catch (error) {
+		throw new DownloadError("NO_FORMATS", "Could not read the playlist or channel page.", { cause: error });
+	}
+}
+
+export async function extractCollection(url: string, source: string, signal?: AbortSignal): Promise<DownloadCollection> {
+	const type = collectionType(url);
+	if (!type) {
+		throw new DownloadError("INVALID_URL", "Not a YouTube playlist or channel URL");
+	}
+
+	// Channel home pages don't list uploads, the videos tab does
+	const pageUrl = new URL(url);
+	if (type === "Channel") {
+		pageUrl.pathname = `${pageUrl.pathname.replace(/\/$/, "").replace(/\/(?:videos|featured|streams|shorts)$/, "")}/videos`;
+	}
+
+	const html = await fetchPage(pageUrl.toString(), signal);
+	const data = extractInitialData(html);
+
+	const alert = textOf(data.alerts?.[0]?.alertRenderer?.text);
+	if (alert && /private|does not exist|unavailable/i.test(alert)) {
+		throw new DownloadError("PRIVATE", alert);
+	}
+
+	const { entries, token } = collectItems(data.contents);
+	if (entries.length === 0) {
+		throw new DownloadError("NO_FORMATS", `This ${type.toLowerCase()} has no downloadable videos.`);
+	}
+
+	const apiKey = html.match(/"INNERTUBE_API_KEY":"([^"]+)"/)?.[1];
+	const clientVersion = html.match(/"INNERTUBE_CLIENT_VERSION":"([^"]+)"/)?.[1];
+	const microformat = data.microformat?.microformatDataRenderer;
+
+	return {
+		success: true,
+		kind: "collection",
+		message: `${type} ready for download`,
+		type,
+		source,
+		title: microformat?.title || `YouTube ${type}`,
+		thumbnail: microformat?.thumbnail?.thumbnails?.at(-1)?.url,
+		entries,
+		nextPage: token && apiKey && clientVersion ? encodeCursor({ token, apiKey, clientVersion }) : undefined,
+	};
+}
+
+export async function loadCollectionPage(value: string, signal?: AbortSignal): Promise<CollectionPage> {
+	const cursor = decodeCursor(value);
+	const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+
+	const response = await fetch(
+		`https://www.youtube.com/youtubei/v1/browse?key=${encodeURIComponent(cursor.apiKey)}&prettyPrint=false`,
+		{
+			method: "POST",
+			signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+			headers: {
+				"User-Agent": BROWSER_USER_AGENT,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				context: { client: { clientName: "WEB", clientVersion: cursor.clientVersion, hl: "en" } },
+				continuation: cursor.token,
+			}),
+		}
+	);
+
+	if (!response.ok) {
+		throw new DownloadError("UPSTREAM_HTTP", `YouTube responded with status ${response.status}.`);
+	}
+
+	let data: unknown;
+	try {
+		data = await response.json();
+	} catch (error) {
+		throw new DownloadError("NO_FORMATS", "Could not read the next page of this playlist or channel.", { cause: error });
+	}
+
+	const { entries, token } = collectItems(data);
+	return {
+		success: true,
+		entries,
+		nextPage: token ? encodeCursor({ ...cursor, token }) : undefined,
+	};
+}
@@ -0,0 +1,543 @@
+import { NextResponse } from "next/server";
+import ytdl from "@distube/ytdl-core";
+import { cached } from "@/lib/cache";
+import {
+	failure,
+	type AudioFormat,
+	type CacheStatus,
+	type DownloadResult,
+	type FormatOption,
+	type MediaItem,
+	type MediaMetadata,
+	type SubtitleTrack,
+} from "@/lib/download-result";
+import { proxyLink } from "@/lib/download-token";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { MUX_CONTAINERS, muxStreams, trackInputProgress, type MuxContainer } from "@/lib/ffmpeg";
+import { generateFilename } from "@/lib/filename";
+import { httpFetcher, openManifestStream } from "@/lib/manifest";
+import { parseRange, rangeHeaders } from "@/lib/range";
+import { BROWSER_USER_AGENT, ERROR_MESSAGES } from "./constants";
+import { extractCollection, isCollectionUrl, loadCollectionPage } from "./youtube-collection";
+import type { AudioSource, ExtractOptions, Extractor, StageReporter, StreamRequest, SubtitleCue, SubtitleSource } from "./types";
+
+const URL_PATTERN = /(?:youtube\.com|youtu\.be)/i;
+
+// Formats that can be served as a single file (skips HLS/DASH manifests)
+function downloadableFormats(formats: ytdl.videoFormat[]) {
+	return formats.filter((f) => !f.isHLS && !f.isDashMPD && (f.hasVideo || f.hasAudio));
+}
+
+// Video renditions by resolution first, then audio-only ones by bitrate
+function compareFormats(a: ytdl.videoFormat, b: ytdl.videoFormat) {
+	if (a.hasVideo !== b.hasVideo) return a.hasVideo ? -1 : 1;
+	return (
+		(b.height || 0) - (a.height || 0) ||
+		Number(b.hasAudio) - Number(a.hasAudio) ||
+		(b.bitrate || 0) - (a.bitrate || 0)
+	);
+}
+
+function estimateSize(format: ytdl.videoFormat) {
+	if (format.contentLength) return parseInt(format.contentLength);
+	if (format.bitrate && format.approxDurationMs) {
+		return Math.round((format.bitrate * parseInt(format.approxDurationMs)) / 8000);
+	}
+	return undefined;
+}
+
+function toFormatOption(format: ytdl.videoFormat): FormatOption {
+	const audioKbps = format.audioBitrate || Math.round((format.bitrate || 0) / 1000);
+	return {
+		itag: format.itag,
+		label: format.hasVideo ? format.qualityLabel || `${format.height}p` : `${audioKbps}kbps`,
+		container: format.container,
+		codec: format.codecs,
+		bitrate: format.bitrate,
+		fps: format.fps,
+		height: format.height,
+		sizeBytes: estimateSize(format),
+		hasVideo: format.hasVideo,
+		hasAudio: format.hasAudio,
+	};
+}
+
+function fileTypeFor(format: ytdl.videoFormat) {
+	const mimeType = format.mimeType?.split(";")[0] || "video/mp4";
+	if (!format.hasVideo && format.container === "mp4") {
+		return { contentType: mimeType, extension: ".m4a" };
+	}
+	return { contentType: mimeType, extension: `.${format.container}` };
+}
+
+// The parts of ytdl's info this extractor and ytdl.downloadFromInfo read.
+// The full object also carries the raw watch page responses, several
+// hundred KB a shared cache would have to serialize on every hit.
+type CachedInfo = Pick<ytdl.videoInfo, "videoDetails" | "formats"> & {
+	player_response: Pick<ytdl.videoInfo["player_response"], "playabilityStatus" | "captions">;
+	// downloadFromInfo refuses info from getBasicInfo without it
+	full: true;
+};
+
+function downloadFromInfo(info: CachedInfo, options: ytdl.downloadOptions) {
+	return ytdl.downloadFromInfo(info as unknown as ytdl.videoInfo, options);
+}
+
+function videoMetadata(url: string, info: CachedInfo): MediaMetadata {
+	const details = info.videoDetails;
+	const viewCount = Number(details.viewCount);
+	return {
+		platform: "youtube",
+		sourceUrl: details.video_url || url,
+		id: details.videoId,
+		author: details.author?.name,
+		authorUrl: details.author?.channel_url,
+		durationSeconds: Number(details.lengthSeconds) || undefined,
+		viewCount: Number.isNaN(viewCount) || !details.viewCount ? undefined : viewCount,
+		likeCount: details.likes ?? undefined,
+		publishedAt: details.publishDate || details.uploadDate || undefined,
+		description: details.description || undefined,
+	};
+}
+
+function captionTracks(info: CachedInfo) {
+	return info.player_response.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+}
+
+// Creator-uploaded tracks first, then speech recognition ones. Tracks are
+// identified by vssId, which tells a language's manual and auto track apart.
+function subtitleTracks(url: string, info: CachedInfo): SubtitleTrack[] {
+	return captionTracks(info)
+		.map((track): SubtitleTrack => ({
+			language: track.languageCode,
+			name: track.name?.simpleText || track.languageCode,
+			autoGenerated: track.kind === "asr",
+			downloadUrl: proxyLink({ url, type: "subtitles", track: track.vssId }),
+		}))
+		.sort((a, b) => Number(a.autoGenerated) - Number(b.autoGenerated));
+}
+
+// Stream URLs in the info are signed for about six hours
+const INFO_TTL_MS = 4 * 60 * 60 * 1000;
+
+// Cached per video, so /api/proxy reuses the info the resolve fetched
+function getVideoInfo(url: string, signal?: AbortSignal) {
+	return cached<CachedInfo>(`youtube:${ytdl.getVideoID(url)}`, INFO_TTL_MS, async (loadSignal) => {
+		// Add agent options to bypass bot detection
+		const agent = ytdl.createAgent(undefined, {
+			localAddress: undefined,
+		});
+
+		// Use getInfo instead of getBasicInfo to get all formats
+		const info = await ytdl.getInfo(url, {
+			agent,
+			requestOptions: {
+				headers: {
+					"User-Agent": BROWSER_USER_AGENT,
+					"Accept-Language": "en-US,en;q=0.9",
+				},
+				signal: loadSignal,
+			},
+		});
+		const { playabilityStatus, captions } = info.player_response;
+		return { videoDetails: info.videoDetails, formats: info.formats, player_response: { playabilityStatus, captions }, full: true };
+	}, { signal });
+}
+
+// ytdl-core only reports YouTube's playability status through the error
+// message, so the mapping to error codes is kept in this one place.
+function toDownloadError(error: unknown): DownloadError {
+	if (error instanceof DownloadError) return error;
+
+	const message = error instanceof Error ? error.message : "";
+	const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+
+	if (statusCode === 429 || /not a bot|Sign in to confirm you/i.test(message)) {
+		return new DownloadError("BOT_BLOCKED", "YouTube is blocking automated downloads. Please try downloading from Instagram or Facebook instead, or try again in a few minutes.", { cause: error });
+	}
+	if (/confirm your age|age-restricted|inappropriate for some users/i.test(message)) {
+		return new DownloadError("AGE_RESTRICTED", "This YouTube video is age-restricted and can't be downloaded.", { cause: error });
+	}
+	if (/private|unavailable|members-only|has been removed/i.test(message)) {
+		return new DownloadError("PRIVATE", "This YouTube video is private or unavailable.", { cause: error });
+	}
+	if (/timeout|timed out|ETIMEDOUT/i.test(message)) {
+		return new DownloadError("TIMEOUT", "YouTube took too long to respond. Please try again.", { cause: error });
+	}
+	if (/playable formats/i.test(message)) {
+		return new DownloadError("NO_FORMATS", "No downloadable formats found for this video.", { cause: error });
+	}
+	if (statusCode) {
+		return new DownloadError("UPSTREAM_HTTP", `YouTube responded with status ${statusCode}.`, { cause: error });
+	}
+	return new DownloadError("INTERNAL", ERROR_MESSAGES.YOUTUBE_FAILED, { cause: error });
+}
+
+async function extract(url: string, { onStage, signal }: ExtractOptions = {}): Promise<DownloadResult> {
+	try {
+		if (isCollectionUrl(url)) {
+			onStage?.({ stage: "fetching_page" });
+			return await extractCollection(url, "youtube", signal);
+		}
+
+		if (!ytdl.validateURL(url)) {
+			return failure("INVALID_URL", ERROR_MESSAGES.YOUTUBE_INVALID);
+		}
+
+		onStage?.({ stage: "fetching_page" });
+		const { value: info, status } = await getVideoInfo(url, signal);
+		onStage?.({ stage: "extracting_formats" });
+		const title = info.videoDetails.title;
+		const thumbnail = info.videoDetails.thumbnails.at(-1)?.url;
+
+		// Get all formats
+		const formats = info.formats;
+
+		// First try formats with both video and audio
+		let videoFormats = formats.filter((f) => f.hasVideo && f.hasAudio);
+
+		// If no combined formats, try any video format
+		if (videoFormats.length === 0) {
+			videoFormats = formats.filter((f) => f.hasVideo);
+		}
+
+		// If still no formats, try all formats. A copy, since they are sorted
+		// below and belong to the cached info.
+		if (videoFormats.length === 0) {
+			videoFormats = [...formats];
+		}
+
+		if (videoFormats.length === 0) {
+			return failure("NO_FORMATS", "No downloadable formats found for this video. It might be age-restricted or private.");
+		}
+
+		// Sort by quality (height) descending
+		videoFormats.sort((a, b) => (b.height || 0) - (a.height || 0));
+		const bestFormat = videoFormats[0];
+		// A file with both tracks is streamed as it is, by range; the rest
+		// would be merged or assembled from segments
+		const previewFormat = videoFormats.find((f) => f.hasVideo && f.hasAudio && !f.isHLS && !f.isDashMPD);
+
+		return {
+			success: true,
+			kind: "media",
+			message: "YouTube video ready for download",
+			downloadUrl: proxyLink({ url, type: "youtube" }, { quality: String(bestFormat.itag) }),
+			type: "Video",
+			mediaType: "video",
+			title,
+			thumbnail,
+			mediaUrls: videoFormats.slice(0, 5).map((f): MediaItem => ({
+				url: f.url,
+				type: "video",
+				quality: f.qualityLabel || `${f.height}p` || "Unknown",
+			})),
+			previewUrl: previewFormat ? proxyLink({ url, type: "youtube" }, { quality: String(previewFormat.itag) }) : undefined,
+			formats: downloadableFormats(formats).sort(compareFormats).map(toFormatOption),
+			audioUrl: proxyLink({ url, type: "audio" }),
+			subtitles: subtitleTracks(url, info),
+			metadata: videoMetadata(url, info),
+			cache: status,
+		};
+	} catch (error) {
+		console.error("Error handling YouTube:", error);
+		const downloadError = toDownloadError(error);
+		return failure(downloadError.code, downloadError.message);
+	}
+}
+
+// Best audio-only format, preferring the given container
+function pickAudioFormat(formats: ytdl.videoFormat[], container?: string) {
+	const audioFormats = downloadableFormats(formats)
+		.filter((f) => f.hasAudio && !f.hasVideo)
+		.sort((a, b) => (b.audioBitrate || b.bitrate || 0) - (a.audioBitrate || a.bitrate || 0));
+	return audioFormats.find((f) => f.container === container) || audioFormats[0];
+}
+
+async function streamMuxed(
+	info: CachedInfo,
+	cacheStatus: CacheStatus,
+	videoFormat: ytdl.videoFormat,
+	audioFormat: ytdl.videoFormat,
+	requestedContainer: string | null,
+	signal: AbortSignal,
+	onStage?: StageReporter
+) {
+	// MP4 can't hold every codec pairing without re-encoding, Matroska can
+	const container: MuxContainer =
+		requestedContainer === "mp4" || requestedContainer === "mkv"
+			? requestedContainer
+			: videoFormat.container === "mp4" && audioFormat.container === "mp4" ? "mp4" : "mkv";
+
+	const videoStream = downloadFromInfo(info, { format: videoFormat });
+	const audioStream = downloadFromInfo(info, { format: audioFormat });
+
+	const totalBytes = Number(videoFormat.contentLength) + Number(audioFormat.contentLength);
+	if (onStage && totalBytes > 0) {
+		trackInputProgress([videoStream, audioStream], totalBytes, (percent) => onStage({ stage: "muxing", percent }));
+	} else {
+		onStage?.({ stage: "muxing" });
+	}
+
+	let output;
+	try {
+		output = await muxStreams(videoStream, audioStream, container, signal);
+	} catch (error) {
+		videoStream.destroy();
+		audioStream.destroy();
+		throw new DownloadError("INTERNAL", "Merging video and audio is not available on this server.", { cause: error });
+	}
+
+	const { contentType, extension } = MUX_CONTAINERS[container];
+	return new NextResponse(
+		output as unknown as ReadableStream,
+		{
+			headers: {
+				// Muxed output is produced on the fly, so it can't be resumed
+				"Accept-Ranges": "none",
+				"Content-Type": contentType,
+				"Content-Disposition": generateFilename(info.videoDetails.title, extension),
+				"Cache-Control": "no-cache",
+				"X-Cache": cacheStatus.toUpperCase(),
+			},
+		}
+	);
+}
+
+// Live replays are often only offered as HLS or DASH manifests. DASH
+// manifests list every itag, so the format's own representation is picked.
+async function streamManifest(
+	info: CachedInfo,
+	cacheStatus: CacheStatus,
+	format: ytdl.videoFormat,
+	requestedContainer: string | null,
+	signal: AbortSignal
+) {
+	const container: MuxContainer = requestedContainer === "mkv" ? "mkv" : "mp4";
+	const output = await openManifestStream(format.url, {
+		quality: format.isDashMPD ? String(format.itag) : null,
+		container,
+		fetchResource: httpFetcher({ "User-Agent": BROWSER_USER_AGENT }),
+		signal,
+	});
+
+	const { contentType, extension } = MUX_CONTAINERS[container];
+	return new NextResponse(
+		output as unknown as ReadableStream,
+		{
+			headers: {
+				// Assembled from segments on the fly, so it can't be resumed
+				"Accept-Ranges": "none",
+				"Content-Type": contentType,
+				"Content-Disposition": generateFilename(info.videoDetails.title, extension),
+				"Cache-Control": "no-cache",
+				"X-Cache": cacheStatus.toUpperCase(),
+			},
+		}
+	);
+}
+
+async function stream({ url, quality, searchParams, range, signal, onStage }: StreamRequest): Promise<Response> {
+	try {
+		if (!ytdl.validateURL(url)) {
+			throw new DownloadError("INVALID_URL", ERROR_MESSAGES.YOUTUBE_INVALID);
+		}
+
+		const { value: info, status } = await getVideoInfo(url, signal);
+		const title = info.videoDetails.title;
+
+		// "best" is the highest resolution whether or not it carries audio, an
+		// explicit itag from the format picker may be any downloadable format
+		let selectedFormat = quality === "best"
+			? downloadableFormats(info.formats).filter((f) => f.hasVideo).sort(compareFormats)[0]
+			: quality
+				? downloadableFormats(info.formats).find((f) => f.itag === parseInt(quality))
+				: undefined;
+
+		if (!selectedFormat) {
+			// Get formats with video and audio
+			let formats = ytdl.filterFormats(info.formats, "videoandaudio");
+			if (formats.length === 0) {
+				formats = info.formats.filter((f) => f.hasVideo);
+			}
+
+			if (formats.length === 0) {
+				throw new DownloadError("NO_FORMATS", "No suitable format found");
+			}
+
+			// Sort by quality and use best
+			formats.sort((a, b) => (b.height || 0) - (a.height || 0));
+			selectedFormat = formats[0];
+		}
+
+		if (selectedFormat.isHLS || selectedFormat.isDashMPD) {
+			return await streamManifest(info, status, selectedFormat, searchParams.get("container"), signal);
+		}
+
+		// Adaptive video-only formats get the best audio track merged in
+		if (selectedFormat.hasVideo && !selectedFormat.hasAudio) {
+			const audioFormat = pickAudioFormat(info.formats, selectedFormat.container);
+			if (audioFormat) {
+				return await streamMuxed(info, status, selectedFormat, audioFormat, searchParams.get("container"), signal, onStage);
+			}
+		}
+
+		const { contentType, extension } = fileTypeFor(selectedFormat);
+
+		// Ranges can only be honoured when YouTube reports the exact size
+		const size = selectedFormat.contentLength ? parseInt(selectedFormat.contentLength) : NaN;
+		let byteRange = Number.isNaN(size) ? null : parseRange(range, size);
+		if (byteRange === "unsatisfiable") {
+			return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+		}
+		// ytdl reads an end of 0 as open-ended, so answer bytes=0-0 with the whole file
+		if (byteRange?.end === 0) byteRange = null;
+
+		const videoStream = downloadFromInfo(info, {
+			format: selectedFormat,
+			...(byteRange ? { range: byteRange } : {}),
+		});
+
+		return new NextResponse(
+			videoStream as unknown as ReadableStream,
+			{
+				status: byteRange ? 206 : 200,
+				headers: {
+					...(Number.isNaN(size) ? { "Accept-Ranges": "none" } : rangeHeaders(byteRange, size)),
+					"Content-Type": contentType,
+					"Content-Disposition": generateFilename(title, extension),
+					"Cache-Control": "no-cache",
+					"X-Cache": status.toUpperCase(),
+				},
+			}
+		);
+	} catch (error) {
+		console.error("YouTube download error:", error);
+		const downloadError = toDownloadError(error);
+		return errorResponse(downloadError.code, downloadError.message);
+	}
+}
+
+// Native audio container for each output format, so ffmpeg can copy the track
+const AUDIO_CONTAINERS: Partial<Record<AudioFormat, string>> = { m4a: "mp4", opus: "webm" };
+
+async function openAudio({ url, signal }: StreamRequest, format: AudioFormat): Promise<AudioSource> {
+	if (!ytdl.validateURL(url)) {
+		throw new DownloadError("INVALID_URL", ERROR_MESSAGES.YOUTUBE_INVALID);
+	}
+
+	try {
+		const { value: info, status } = await getVideoInfo(url, signal);
+		const audioFormat = pickAudioFormat(info.formats, AUDIO_CONTAINERS[format]);
+
+		if (!audioFormat) {
+			throw new DownloadError("NO_FORMATS", "No audio-only format found for this video.");
+		}
+
+		return {
+			stream: downloadFromInfo(info, { format: audioFormat }),
+			title: info.videoDetails.title,
+			codec: audioFormat.audioCodec?.startsWith("mp4a") ? "aac" : audioFormat.audioCodec === "opus" ? "opus" : undefined,
+			cache: status,
+		};
+	} catch (error) {
+		throw toDownloadError(error);
+	}
+}
+
+const TIMEDTEXT_TIMEOUT_MS = 15 * 1000;
+
+// Shape of YouTube's timedtext response with fmt=json3
+interface TimedText {
+	events?: {
+		tStartMs?: number;
+		dDurationMs?: number;
+		segs?: { utf8?: string }[];
+	}[];
+}
+
+function parseTimedText(data: TimedText): SubtitleCue[] {
+	const cues = (data.events ?? [])
+		.filter((event) => event.segs)
+		.map((event) => ({
+			startMs: event.tStartMs ?? 0,
+			endMs: (event.tStartMs ?? 0) + (event.dDurationMs ?? 0),
+			text: event.segs!.map((seg) => seg.utf8 ?? "").join("").trim(),
+		}))
+		.filter((cue) => cue.text);
+
+	// Auto-generated captions roll, each line staying up until the next one
+	// ends. Cutting cues at the next start keeps players to one line at a time.
+	cues.forEach((cue, i) => {
+		const next = cues[i + 1];
+		if (next && next.startMs > cue.startMs && next.startMs < cue.endMs) cue.endMs = next.startMs;
+	});
+	return cues;
+}
+
+async function openSubtitles({ url, searchParams, signal }: StreamRequest): Promise<SubtitleSource> {
+	if (!ytdl.validateURL(url)) {
+		throw new DownloadError("INVALID_URL", ERROR_MESSAGES.YOUTUBE_INVALID);
+	}
+
+	try {
+		const { value: info, status } = await getVideoInfo(url, signal);
+		const track = captionTracks(info).find((t) => t.vssId === searchParams.get("track"));
+		if (!track) {
+			throw new DownloadError("NO_FORMATS", "This caption track is no longer available.");
+		}
+
+		const timedTextUrl = new URL(track.baseUrl, "https://www.youtube.com");
+		timedTextUrl.searchParams.set("fmt", "json3");
+		const response = await fetch(timedTextUrl, {
+			signal: AbortSignal.any([signal, AbortSignal.timeout(TIMEDTEXT_TIMEOUT_MS)]),
+			headers: { "User-Agent": BROWSER_USER_AGENT },
+		});
+		if (!response.ok) {
+			throw new DownloadError("UPSTREAM_HTTP", `YouTube responded with status ${response.status}.`);
+		}
+
+		// YouTube answers some automated requests with an empty body
+		const body = await response.text();
+		if (!body) {
+			throw new DownloadError("BOT_BLOCKED", "YouTube did not return this caption track. Please try again in a few minutes.");
+		}
+
+		let data: TimedText;
+		try {
+			data = JSON.parse(body);
+		} catch (error) {
+			throw new DownloadError("NO_FORMATS", "Could not read this caption track.", { cause: error });
+		}
+
+		return {
+			cues: parseTimedText(data),
+			title: info.videoDetails.title,
+			language: track.languageCode,
+			cache: status,
+		};
+	} catch (error) {
+		throw toDownloadError(error);
+	}
+}
+
+async function loadMore(cursor: string, signal?: AbortSignal) {
+	try {
+		return await loadCollectionPage(cursor, signal);
+	} catch (error) {
+		throw toDownloadError(error);
+	}
+}
+
+export const youtubeExtractor: Extractor = {
+	id: "youtube",
+	name: "YouTube",
+	proxyTypes: ["youtube"],
+	matches: (url) => URL_PATTERN.test(url),
+	extract,
+	stream,
+	loadMore,
+	openAudio,
+	openSubtitles,
+};
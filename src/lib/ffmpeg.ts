@@ -0,0 +1,104 @@
+import { spawn } from "child_process";
+import { once } from "events";
+import type { Readable, Writable } from "stream";
+import ffmpegStatic from "ffmpeg-static";
+
+export type MuxContainer = "mp4" | "mkv";
+
+export const MUX_CONTAINERS: Record<MuxContainer, { contentType: string; extension: string }> = {
+	mp4: { contentType: "video/mp4", extension: ".mp4" },
+	mkv: { contentType: "video/x-matroska", extension: ".mkv" },
+};
+
+function ffmpegPath() {
+	return process.env.FFMPEG_PATH || ffmpegStatic || "ffmpeg";
+}
+
+// Run ffmpeg with each input stream on its own pipe (pipe:3, pipe:4, ...)
+// and return its stdout. Resolves once the process has started, so a
+// missing binary is reported before any response headers are sent.
+export async function runFfmpeg(args: string[], inputs: Readable[], signal?: AbortSignal): Promise<Readable> {
+	const child = spawn(ffmpegPath(), ["-hide_banner", "-loglevel", "error", ...args], {
+		stdio: ["ignore", "pipe", "pipe", ...inputs.map(() => "pipe" as const)],
+	});
+
+	// stdout/stderr always exist since both are spawned as pipes
+	const output = child.stdout!;
+	let stderr = "";
+	child.stderr!.on("data", (chunk) => {
+		stderr = (stderr + chunk).slice(-2000);
+	});
+
+	const stop = () => {
+		inputs.forEach((input) => input.destroy());
+		child.kill("SIGKILL");
+	};
+	signal?.addEventListener("abort", stop, { once: true });
+
+	inputs.forEach((input, i) => {
+		const pipe = child.stdio[i + 3] as Writable;
+		// ffmpeg may close its end early (e.g. on abort), which is not an error for us
+		pipe.on("error", () => {});
+		input.on("error", (error) => {
+			output.destroy(error);
+			stop();
+		});
+		input.pipe(pipe);
+	});
+
+	child.on("close", (code) => {
+		signal?.removeEventListener("abort", stop);
+		if (code !== 0 && !signal?.aborted) {
+			output.destroy(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+		}
+	});
+
+	await once(child, "spawn");
+	child.on("error", (error) => output.destroy(error));
+	return output;
+}
+
+// Report how much of its inputs ffmpeg has read, as a whole percentage of
+// their combined size. Output size isn't known upfront, input size often is.
+// Starts the inputs flowing, so call it right before handing them to ffmpeg.
+export function trackInputProgress(inputs: Readable[], totalBytes: number, onPercent: (percent: number) => void) {
+	let read = 0;
+	let reported = -1;
+	for (const input of inputs) {
+		input.on("data", (chunk: Buffer) => {
+			read += chunk.length;
+			const percent = Math.min(Math.floor((read / totalBytes) * 100), 100);
+			if (percent !== reported) {
+				reported = percent;
+				onPercent(percent);
+			}
+		});
+	}
+}
+
+// MP4 is written fragmented so it can be streamed without seeking back
+function outputFormat(container: MuxContainer) {
+	return container === "mp4"
+		? ["-movflags", "frag_keyframe+empty_moov+default_base_moof", "-f", "mp4"]
+		: ["-f", "matroska"];
+}
+
+// Merge a video-only and an audio-only stream without re-encoding
+export function muxStreams(video: Readable, audio: Readable, container: MuxContainer, signal?: AbortSignal) {
+	return runFfmpeg(
+		["-i", "pipe:3", "-i", "pipe:4", "-map", "0:v:0", "-map", "1:a:0", "-c", "copy", ...outputFormat(container), "pipe:1"],
+		[video, audio],
+		signal
+	);
+}
+
+// Repackage one stream (e.g. concatenated MPEG-TS segments) into the
+// container without re-encoding. ADTS AAC from TS needs converting for MP4.
+export function remuxStream(input: Readable, container: MuxContainer, signal?: AbortSignal) {
+	const audioFilter = container === "mp4" ? ["-bsf:a", "aac_adtstoasc"] : [];
+	return runFfmpeg(
+		["-i", "pipe:3", "-map", "0:v:0?", "-map", "0:a:0?", "-c", "copy", ...audioFilter, ...outputFormat(container), "pipe:1"],
+		[input],
+		signal
+	);
+}
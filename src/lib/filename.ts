@@ -0,0 +1,19 @@
+// Title reduced to a short, filesystem-safe slug
+export function safeTitle(title: string): string {
+	return title
+		.replace(/[^a-z0-9]/gi, "-")
+		.replace(/-+/g, "-")
+		.toLowerCase()
+		.slice(0, 40);
+}
+
+// Generate safe filename for downloads
+export function generateFilename(title: string, extension: string): string {
+	return `attachment; filename="${safeTitle(title)}-${Date.now()}${extension}"`;
+}
+
+// Read the filename back out of a header built by generateFilename
+export function parseFilename(contentDisposition: string | null): string | null {
+	const match = contentDisposition && /filename="([^"]+)"/.exec(contentDisposition);
+	return match ? match[1] : null;
+}
@@ -0,0 +1,81 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { JobRecord, JobStore } from "./types";
+
+// Ids are UUIDs, anything else never touches the filesystem
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// One <id>.json record and <id>.bin artifact per job in `dir`
+export function createFileStore(dir: string): JobStore {
+	const ready = mkdir(dir, { recursive: true });
+
+	const path = (id: string, extension: string) => {
+		if (!JOB_ID.test(id)) throw new Error(`Invalid job id: ${id}`);
+		return join(dir, `${id}${extension}`);
+	};
+
+	const read = async (id: string): Promise<JobRecord | undefined> => {
+		try {
+			return JSON.parse(await readFile(path(id, ".json"), "utf8"));
+		} catch {
+			return undefined;
+		}
+	};
+
+	return {
+		async get(id) {
+			return JOB_ID.test(id) ? read(id) : undefined;
+		},
+		async save(job) {
+			await ready;
+			// Written aside and renamed, so readers never see half a record
+			const target = path(job.id, ".json");
+			await writeFile(`${target}.tmp`, JSON.stringify(job));
+			await rename(`${target}.tmp`, target);
+		},
+		async delete(id) {
+			await rm(path(id, ".bin"), { force: true });
+			await rm(path(id, ".bin.part"), { force: true });
+			await rm(path(id, ".json"), { force: true });
+		},
+		async expired(now) {
+			await ready;
+			const ids = (await readdir(dir))
+				.filter((name) => name.endsWith(".json"))
+				.map((name) => name.slice(0, -".json".length))
+				.filter((id) => JOB_ID.test(id));
+
+			const expired: string[] = [];
+			for (const id of ids) {
+				const job = await read(id);
+				if (job && job.expiresAt <= now) expired.push(id);
+			}
+			return expired;
+		},
+		async writeArtifact(id, body) {
+			await ready;
+			const target = path(id, ".bin");
+			try {
+				await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), createWriteStream(`${target}.part`));
+			} catch (error) {
+				await rm(`${target}.part`, { force: true });
+				throw error;
+			}
+			await rename(`${target}.part`, target);
+			return (await stat(target)).size;
+		},
+		async readArtifact(id, range) {
+			const stream = createReadStream(path(id, ".bin"), range);
+			try {
+				await new Promise((resolve, reject) => stream.once("open", resolve).once("error", reject));
+			} catch {
+				return null;
+			}
+			return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+		},
+	};
+}
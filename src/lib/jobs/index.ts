@@ -0,0 +1,435 @@
+import { randomUUID } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { withJobLinks } from "@/lib/api-v1";
+import {
+	AUDIO_FORMATS,
+	SUBTITLE_FORMATS,
+	setProxyParams,
+	type Job,
+	type JobCallbackPayload,
+	type JobProgress,
+	type JobRequestBody,
+	type ProxyErrorBody,
+	type ProxyParams,
+} from "@/lib/download-result";
+import { DownloadError, isErrorCode, type ErrorCode } from "@/lib/errors";
+import type { StageReporter } from "@/lib/extractors";
+import { generateFilename, parseFilename } from "@/lib/filename";
+import { openProxyStream, proxyQuery, proxyZipEntries } from "@/lib/proxy";
+import { consume, identityApiKey, meterBytes, rateLimitMessage } from "@/lib/rate-limit";
+import { resolveUrl } from "@/lib/resolve";
+import { progressStream } from "@/lib/save-download";
+import { createZipStream, ZIP_MAX_BYTES, ZIP_MAX_ITEMS } from "@/lib/zip";
+import { createFileStore } from "./file-store";
+import { createInProcessQueue } from "./memory-queue";
+import type { JobQueue, JobRecord, JobStore, StoredArtifact } from "./types";
+import { parseCallbackUrl, postCallback } from "./webhooks";
+
+export { createFileStore } from "./file-store";
+export { createInProcessQueue } from "./memory-queue";
+export type { JobQueue, JobRecord, JobStore, StoredArtifact, StoredCallback, StoredDelivery } from "./types";
+
+// Long resolves, downloads and archives run as jobs outside the request
+// that submits them, so they aren't bound by the function time limit.
+// Clients poll the job, or give a callbackUrl that is POSTed the job once
+// it has succeeded or failed, and then fetch its artifact.
+
+const JOBS_DIR = process.env.JOBS_DIR || join(tmpdir(), "downloader-jobs");
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+// Jobs and artifacts are deleted this long after they last changed
+const TTL_MS = (Number(process.env.JOB_TTL_SECONDS) || 60 * 60) * 1000;
+// Doubled on every further attempt
+const RETRY_DELAY_MS = 5000;
+const PROGRESS_INTERVAL_MS = 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const CALLBACK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+// Doubled after every further failed delivery
+const CALLBACK_RETRY_DELAY_MS = 10 * 1000;
+
+// Failures another attempt may get past, the rest would fail the same way
+const RETRYABLE = new Set<ErrorCode>(["BOT_BLOCKED", "TIMEOUT", "UPSTREAM_HTTP", "INTERNAL"]);
+
+let store: JobStore = createFileStore(JOBS_DIR);
+let queue: JobQueue = createInProcessQueue(runJob, CONCURRENCY);
+
+export function setJobStore(next: JobStore) {
+	store = next;
+}
+
+export function setJobQueue(next: JobQueue) {
+	queue = next;
+}
+
+// Jobs running in this process, aborted when cancelled
+const running = new Map<string, AbortController>();
+
+let lastSweep = 0;
+
+// Delete expired jobs, at most once a minute
+async function sweepExpired() {
+	const now = Date.now();
+	if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+	lastSweep = now;
+	try {
+		for (const id of await store.expired(now)) {
+			await store.delete(id);
+		}
+	} catch (error) {
+		console.error("Job sweep failed:", error);
+	}
+}
+
+function parseProxyParams(value: unknown): ProxyParams | undefined {
+	if (value === undefined) return undefined;
+	if (typeof value !== "object" || value === null) {
+		throw new DownloadError("INVALID_URL", "`params` must be an object.");
+	}
+	const { quality, format, bitrate, container } = value as Record<string, unknown>;
+	return {
+		quality: typeof quality === "string" ? quality : undefined,
+		format: [...AUDIO_FORMATS, ...SUBTITLE_FORMATS].find((f) => f === format),
+		bitrate: typeof bitrate === "number" ? bitrate : undefined,
+		container: container === "mp4" || container === "mkv" ? container : undefined,
+	};
+}
+
+function parseJobInput(body: Record<string, unknown>): JobRequestBody {
+	switch (body.kind) {
+		case "resolve":
+			if (typeof body.url !== "string") {
+				throw new DownloadError("INVALID_URL", "Resolve jobs need the page URL as `url`.");
+			}
+			return { kind: "resolve", url: body.url };
+		case "download":
+			if (typeof body.link !== "string" || !proxyQuery(body.link)) {
+				throw new DownloadError("INVALID_URL", "Download jobs need a downloadUrl from a resolve result as `link`.");
+			}
+			return { kind: "download", link: body.link, params: parseProxyParams(body.params) };
+		case "zip": {
+			const { items, name } = body;
+			if (!Array.isArray(items) || items.length === 0 || !items.every((item) => typeof item === "string" && proxyQuery(item))) {
+				throw new DownloadError("INVALID_URL", "Zip jobs need downloadUrls from resolve results as `items`.");
+			}
+			if (items.length > ZIP_MAX_ITEMS) {
+				throw new DownloadError("TOO_LARGE", `A ZIP can hold at most ${ZIP_MAX_ITEMS} items`);
+			}
+			return { kind: "zip", items, name: typeof name === "string" ? name : undefined };
+		}
+		default:
+			throw new DownloadError("INVALID_URL", "`kind` must be resolve, download or zip.");
+	}
+}
+
+// Check a submitted job, throwing INVALID_URL or TOO_LARGE with a message
+// for the client
+export function parseJobRequest(body: Record<string, unknown>): JobRequestBody {
+	return { ...parseJobInput(body), callbackUrl: parseCallbackUrl(body.callbackUrl) };
+}
+
+// `origin` is where the job's links point in its callback payload
+export async function submitJob(request: JobRequestBody, owner: string, origin: string): Promise<JobRecord> {
+	if (request.callbackUrl && !identityApiKey(owner)) {
+		throw new DownloadError("UNAUTHORIZED", "Callbacks are signed with an API key, submit the job with one.");
+	}
+	await sweepExpired();
+
+	const now = Date.now();
+	const job: JobRecord = {
+		id: randomUUID(),
+		owner,
+		request,
+		status: "queued",
+		attempts: 0,
+		createdAt: now,
+		updatedAt: now,
+		expiresAt: now + TTL_MS,
+		callback: request.callbackUrl ? { origin, state: "pending", deliveries: [] } : undefined,
+	};
+	await store.save(job);
+	await queue.enqueue(job.id);
+	return job;
+}
+
+// The job, unless it doesn't exist, belongs to someone else or has expired
+export async function getJob(id: string, owner: string): Promise<JobRecord | undefined> {
+	const job = await store.get(id);
+	if (!job || job.owner !== owner) return undefined;
+	if (job.expiresAt <= Date.now()) {
+		await store.delete(id);
+		return undefined;
+	}
+	return job;
+}
+
+async function update(job: JobRecord, changes: Partial<JobRecord>) {
+	const now = Date.now();
+	const next: JobRecord = { ...job, ...changes, updatedAt: now, expiresAt: now + TTL_MS };
+	await store.save(next);
+	return next;
+}
+
+// What a cancel saves. The owner asked for it, so no callback is sent.
+function cancellation(job: JobRecord): Partial<JobRecord> {
+	return { status: "cancelled", progress: undefined, callback: job.callback && { ...job.callback, state: "skipped" } };
+}
+
+// Stop a queued or running job. Finished jobs are returned unchanged.
+export async function cancelJob(id: string, owner: string): Promise<JobRecord | undefined> {
+	const job = await getJob(id, owner);
+	if (!job || (job.status !== "queued" && job.status !== "running")) return job;
+
+	const cancelled = await update(job, cancellation(job));
+	running.get(id)?.abort();
+	return cancelled;
+}
+
+export function readArtifact(id: string, range?: { start: number; end: number }) {
+	return store.readArtifact(id, range);
+}
+
+// The job as API clients see it
+export function jobView(job: JobRecord): Job {
+	return {
+		id: job.id,
+		kind: job.request.kind,
+		status: job.status,
+		attempts: job.attempts,
+		stage: job.stage,
+		progress: job.progress,
+		result: job.result,
+		artifact: job.artifact && { ...job.artifact, downloadUrl: `/api/v1/jobs/${job.id}/artifact` },
+		error: job.error,
+		createdAt: new Date(job.createdAt).toISOString(),
+		updatedAt: new Date(job.updatedAt).toISOString(),
+		expiresAt: new Date(job.expiresAt).toISOString(),
+		callback: job.callback && job.request.callbackUrl ? {
+			url: job.request.callbackUrl,
+			state: job.callback.state,
+			deliveries: job.callback.deliveries.map((delivery) => ({ ...delivery, at: new Date(delivery.at).toISOString() })),
+		} : undefined,
+	};
+}
+
+async function responseError(response: Response) {
+	try {
+		const body: ProxyErrorBody = await response.json();
+		if (isErrorCode(body.code)) return new DownloadError(body.code, body.error);
+	} catch {
+		// not a proxy error body
+	}
+	return new DownloadError("UPSTREAM_HTTP", `The download failed with status ${response.status}.`);
+}
+
+// The file a download or zip job saves, with bytes billed to the owner as
+// they are relayed
+async function openJobResponse(job: JobRecord, signal: AbortSignal, onStage: StageReporter) {
+	const quota = await consume(job.owner, "bytes", 0);
+	if (!quota.allowed) {
+		throw new DownloadError("RATE_LIMITED", rateLimitMessage(quota));
+	}
+
+	if (job.request.kind === "zip") {
+		const items = job.request.items.map((item) => proxyQuery(item)!);
+		const archive = createZipStream(proxyZipEntries(items, signal, ZIP_MAX_BYTES), ZIP_MAX_BYTES);
+		return meterBytes(new Response(archive, {
+			headers: {
+				"Content-Type": "application/zip",
+				"Content-Disposition": generateFilename(job.request.name || "downloads", ".zip"),
+			},
+		}), job.owner, quota);
+	}
+
+	if (job.request.kind !== "download") {
+		throw new Error(`Jobs of kind ${job.request.kind} have no artifact`);
+	}
+	const query = proxyQuery(job.request.link)!;
+	if (job.request.params) setProxyParams(query, job.request.params);
+
+	const response = await openProxyStream(query, signal, null, onStage);
+	if (!response.ok) {
+		throw await responseError(response);
+	}
+	return meterBytes(response, job.owner, quota);
+}
+
+// Save a download or zip job's file, reporting bytes as they arrive
+async function saveArtifact(job: JobRecord, signal: AbortSignal, onStage: StageReporter, onProgress: (progress: JobProgress) => void): Promise<StoredArtifact> {
+	onStage({ stage: "downloading" });
+	const response = await openJobResponse(job, signal, onStage);
+	if (!response.body) {
+		throw new DownloadError("UPSTREAM_HTTP", "The download was empty.");
+	}
+
+	const contentLength = Number(response.headers.get("content-length"));
+	const total = contentLength > 0 ? contentLength : undefined;
+	const body = response.body.pipeThrough(progressStream(total, ({ received }) => onProgress({ received, total })));
+	const size = await store.writeArtifact(job.id, body);
+
+	const filename = parseFilename(response.headers.get("content-disposition"));
+	return {
+		filename: filename ? decodeURIComponent(filename) : "download",
+		contentType: response.headers.get("content-type") || "application/octet-stream",
+		size,
+	};
+}
+
+// Save a job's final status and queue its callback, if it has one
+async function finish(job: JobRecord, changes: Partial<JobRecord>) {
+	const finished = await update(job, changes);
+	if (finished.callback) {
+		await queue.enqueue(job.id);
+	}
+}
+
+// POST a finished job to its callbackUrl, queueing another try with backoff
+// until the receiver accepts it or attempts run out
+async function deliverCallback(job: JobRecord) {
+	const callback = job.callback!;
+	const payload: JobCallbackPayload = {
+		event: job.status === "succeeded" ? "job.succeeded" : "job.failed",
+		job: withJobLinks(jobView(job), callback.origin),
+	};
+	// submitJob only accepts callbacks from API key holders
+	const delivery = await postCallback(job.request.callbackUrl!, payload, identityApiKey(job.owner)!, callback.deliveries.length + 1);
+	const deliveries = [...callback.deliveries, delivery];
+
+	const delivered = delivery.error === undefined;
+	const retry = !delivered && deliveries.length < CALLBACK_MAX_ATTEMPTS;
+	await update(job, { callback: { ...callback, deliveries, state: delivered ? "delivered" : retry ? "pending" : "failed" } });
+	if (retry) {
+		await queue.enqueue(job.id, CALLBACK_RETRY_DELAY_MS * 2 ** (deliveries.length - 1));
+	}
+}
+
+// Start an attempt of a job that is still queued. The store is read again
+// right before the write, and a cancel made here while it was written
+// aborts `signal`, so the cancel is saved again instead of lost.
+async function markRunning(id: string, signal: AbortSignal) {
+	const queued = await store.get(id);
+	if (queued?.status !== "queued") return undefined;
+
+	const job = await update(queued, { status: "running", attempts: queued.attempts + 1, stage: undefined, progress: undefined });
+	if (signal.aborted) {
+		await update(job, cancellation(job));
+		return undefined;
+	}
+	return job;
+}
+
+// Run one attempt of a queued job, or one delivery of a finished job's
+// callback. The in-process queue calls this, workers behind a shared queue
+// call it for the ids they receive.
+export async function runJob(id: string) {
+	const queued = await store.get(id);
+	if (queued?.callback?.state === "pending" && (queued.status === "succeeded" || queued.status === "failed")) {
+		return deliverCallback(queued);
+	}
+	// Cancelled, expired or picked up by another worker
+	if (!queued || queued.status !== "queued") return;
+
+	const controller = new AbortController();
+	running.set(id, controller);
+	const job = await markRunning(id, controller.signal);
+	if (!job) {
+		running.delete(id);
+		return;
+	}
+
+	// The stored job while it is still running. A job cancelled from another
+	// instance is only seen in the store, checked whenever progress is saved.
+	const stillRunning = async () => {
+		const current = await store.get(id);
+		if (current?.status !== "running") controller.abort();
+		return controller.signal.aborted ? undefined : current;
+	};
+
+	// Stage and progress are saved one write at a time: new stages right
+	// away, percentages and bytes at most once a second. Each write goes onto
+	// the stored record, so a cancel saved meanwhile isn't overwritten, and
+	// writes stop before the final status is saved.
+	const snapshot: Pick<JobRecord, "stage" | "progress"> = {};
+	let writing: Promise<void> | null = null;
+	let dirty = false;
+	let finished = false;
+	let lastWrite = 0;
+
+	const flush = () => {
+		if (finished) return;
+		if (writing) {
+			dirty = true;
+			return;
+		}
+		dirty = false;
+		lastWrite = Date.now();
+		writing = stillRunning()
+			.then(async (current) => {
+				if (current) await store.save({ ...current, ...snapshot, updatedAt: Date.now() });
+			})
+			.catch((error) => console.error(`Job ${id} progress update failed:`, error))
+			.finally(() => {
+				writing = null;
+				if (dirty) flush();
+			});
+	};
+
+	const onStage: StageReporter = (event) => {
+		const isNew = event.stage !== snapshot.stage?.stage;
+		snapshot.stage = event;
+		if (isNew || Date.now() - lastWrite >= PROGRESS_INTERVAL_MS) flush();
+	};
+
+	const onProgress = (progress: JobProgress) => {
+		snapshot.progress = progress;
+		if (Date.now() - lastWrite >= PROGRESS_INTERVAL_MS) flush();
+	};
+
+	const settle = async () => {
+		finished = true;
+		while (writing) await writing;
+	};
+
+	try {
+		if (job.request.kind === "resolve") {
+			const result = await resolveUrl(job.request.url, job.owner, { onStage, signal: controller.signal });
+			if (!result.success) {
+				throw new DownloadError(result.code, result.message);
+			}
+			await settle();
+			const current = await stillRunning();
+			if (current) {
+				await finish(current, { ...snapshot, status: "succeeded", result });
+			}
+			return;
+		}
+
+		const artifact = await saveArtifact(job, controller.signal, onStage, onProgress);
+		await settle();
+		const current = await stillRunning();
+		if (current) {
+			await finish(current, { ...snapshot, status: "succeeded", artifact, progress: { received: artifact.size, total: artifact.size } });
+		}
+	} catch (error) {
+		await settle();
+		const current = await stillRunning();
+		if (!current) return;
+
+		const failure = error instanceof DownloadError
+			? { code: error.code, error: error.message }
+			: { code: "INTERNAL" as const, error: "The job failed unexpectedly." };
+		if (!(error instanceof DownloadError)) {
+			console.error(`Job ${id} failed:`, error);
+		}
+
+		if (RETRYABLE.has(failure.code) && current.attempts < MAX_ATTEMPTS) {
+			await update(current, { status: "queued", stage: undefined, progress: undefined });
+			await queue.enqueue(id, RETRY_DELAY_MS * 2 ** (current.attempts - 1));
+			return;
+		}
+		// The stage is kept to show where the job failed
+		await finish(current, { ...snapshot, status: "failed", error: failure, progress: undefined });
+	} finally {
+		running.delete(id);
+	}
+}
@@ -0,0 +1,37 @@
+import type { JobQueue } from "./types";
+
+// Runs jobs in this process, at most `concurrency` at a time. Queued jobs
+// are lost on restart, and serverless platforms may freeze the process once
+// the submitting request has been answered.
+export function createInProcessQueue(run: (id: string) => Promise<void>, concurrency: number): JobQueue {
+	const waiting: string[] = [];
+	let running = 0;
+
+	const next = () => {
+		while (running < concurrency && waiting.length > 0) {
+			const id = waiting.shift()!;
+			running++;
+			run(id)
+				.catch((error) => console.error(`Job ${id} crashed:`, error))
+				.finally(() => {
+					running--;
+					next();
+				});
+		}
+	};
+
+	const push = (id: string) => {
+		waiting.push(id);
+		next();
+	};
+
+	return {
+		async enqueue(id, delayMs = 0) {
+			if (delayMs > 0) {
+				setTimeout(() => push(id), delayMs);
+			} else {
+				push(id);
+			}
+		},
+	};
+}
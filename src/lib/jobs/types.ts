@@ -0,0 +1,68 @@
+import type {
+	CallbackDelivery,
+	CallbackState,
+	DownloadCollection,
+	DownloadSuccess,
+	JobProgress,
+	JobRequestBody,
+	JobStatus,
+	ProxyErrorBody,
+	StageEvent,
+} from "@/lib/download-result";
+
+// A job as kept by the store. Times are ms since the epoch.
+export interface JobRecord {
+	id: string;
+	// Identity the job is billed to, only it may see the job
+	owner: string;
+	request: JobRequestBody;
+	status: JobStatus;
+	attempts: number;
+	stage?: StageEvent;
+	progress?: JobProgress;
+	result?: DownloadSuccess | DownloadCollection;
+	artifact?: StoredArtifact;
+	error?: ProxyErrorBody;
+	createdAt: number;
+	updatedAt: number;
+	expiresAt: number;
+	// Set when the request has a callbackUrl
+	callback?: StoredCallback;
+}
+
+export interface StoredCallback {
+	// Origin the job was submitted to, for absolute links in the payload
+	origin: string;
+	state: CallbackState;
+	deliveries: StoredDelivery[];
+}
+
+export type StoredDelivery = Omit<CallbackDelivery, "at"> & { at: number };
+
+export interface StoredArtifact {
+	filename: string;
+	contentType: string;
+	size: number;
+}
+
+// Where jobs and their artifacts live. The filesystem store only sees its
+// own disk, deployments with several instances should plug in a shared one.
+export interface JobStore {
+	get(id: string): Promise<JobRecord | undefined>;
+	save(job: JobRecord): Promise<void>;
+	// Remove the job and its artifact, if any
+	delete(id: string): Promise<void>;
+	// Ids of jobs whose expiresAt has passed
+	expired(now: number): Promise<string[]>;
+	// Store the artifact, replacing any earlier attempt's, and return its size
+	writeArtifact(id: string, body: ReadableStream<Uint8Array>): Promise<number>;
+	// Inclusive byte offsets, the whole file without them
+	readArtifact(id: string, range?: { start: number; end: number }): Promise<ReadableStream<Uint8Array> | null>;
+}
+
+// Hands queued jobs to workers. The in-process queue runs them in this
+// server; a shared queue lets separate worker processes call runJob.
+export interface JobQueue {
+	// Run the job once `delayMs` has passed
+	enqueue(id: string, delayMs?: number): Promise<void>;
+}
@@ -0,0 +1,102 @@
+import { createHmac } from "crypto";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import type { JobCallbackPayload } from "@/lib/download-result";
+import { DownloadError } from "@/lib/errors";
+import { assertPublicHost, publicLookup } from "@/lib/safe-fetch";
+import type { StoredDelivery } from "./types";
+
+// POSTs a finished job to the callbackUrl it was submitted with. Receivers
+// check the signature with their API key and answer 2xx, anything else is
+// retried by the job queue.
+
+// Lets callbacks reach plain http and private addresses, for testing
+// against a receiver on this machine
+const ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true";
+const TIMEOUT_MS = 10 * 1000;
+
+// Check a submitted callbackUrl, throwing INVALID_URL with a message for
+// the client. Its host is checked again on every delivery.
+export function parseCallbackUrl(value: unknown): string | undefined {
+	if (value === undefined) return undefined;
+
+	let url: URL;
+	try {
+		url = new URL(String(value));
+	} catch {
+		throw new DownloadError("INVALID_URL", "`callbackUrl` must be an absolute URL.");
+	}
+	if (url.protocol !== "https:" && !(ALLOW_PRIVATE && url.protocol === "http:")) {
+		throw new DownloadError("INVALID_URL", "`callbackUrl` must use https.");
+	}
+	if (url.username || url.password) {
+		throw new DownloadError("INVALID_URL", "`callbackUrl` can't carry credentials.");
+	}
+	return url.href;
+}
+
+// The X-Webhook-Signature header for a body sent at `timestamp` (seconds)
+export function signCallback(body: string, secret: string, timestamp: number) {
+	const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+	return `t=${timestamp},v1=${signature}`;
+}
+
+// POST through http(s).request, which unlike fetch() takes a lookup that
+// pins the connection to the checked address. Resolves with the status.
+function post(url: URL, headers: Record<string, string>, body: string, signal: AbortSignal) {
+	const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+	return new Promise<number>((resolve, reject) => {
+		const request = send(url, {
+			method: "POST",
+			headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+			lookup: ALLOW_PRIVATE ? undefined : publicLookup,
+			signal,
+		}, (response) => {
+			response.resume();
+			resolve(response.statusCode ?? 0);
+		});
+		request.on("error", reject);
+		request.end(body);
+	});
+}
+
+// Make one delivery and describe how it went. Redirects aren't followed,
+// the receiver has to answer at the URL it registered.
+export async function postCallback(url: string, payload: JobCallbackPayload, secret: string, attempt: number): Promise<StoredDelivery> {
+	const at = Date.now();
+	const delivery = (outcome: { status?: number; error?: string }): StoredDelivery => ({
+		event: payload.event,
+		attempt,
+		at,
+		...outcome,
+		durationMs: Date.now() - at,
+	});
+
+	const signal = AbortSignal.timeout(TIMEOUT_MS);
+	try {
+		const target = new URL(url);
+		// The lookup covers host names, IP literals never go through it
+		if (!ALLOW_PRIVATE) {
+			await assertPublicHost(target.hostname);
+		}
+
+		const body = JSON.stringify(payload);
+		const status = await post(target, {
+			"Content-Type": "application/json",
+			"X-Webhook-Event": payload.event,
+			"X-Webhook-Signature": signCallback(body, secret, Math.floor(at / 1000)),
+		}, body, signal);
+
+		return delivery(status >= 200 && status < 300
+			? { status }
+			: { status, error: `The receiver answered ${status}.` });
+	} catch (error) {
+		if (error instanceof DownloadError) {
+			return delivery({ error: error.message });
+		}
+		if (signal.aborted) {
+			return delivery({ error: `The receiver didn't answer within ${TIMEOUT_MS / 1000}s.` });
+		}
+		return delivery({ error: "The receiver couldn't be reached." });
+	}
+}
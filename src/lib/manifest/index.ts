@@ -0,0 +1,192 @@
+import { Readable } from "stream";
+import { DownloadError } from "@/lib/errors";
+import { muxStreams, remuxStream, type MuxContainer } from "@/lib/ffmpeg";
+import { MEDIA_LIMITS, safeFetch, type SafeFetchLimits } from "@/lib/safe-fetch";
+import { parseM3u8 } from "./m3u8";
+import { parseMpd } from "./mpd";
+import type { FetchResource, Manifest, Rendition, Segment } from "./types";
+
+export { parseM3u8 } from "./m3u8";
+export { parseMpd } from "./mpd";
+export type { FetchResource, Manifest, Rendition, Segment } from "./types";
+
+// Downloads segmented streams (DASH or HLS) as one file: the manifest is
+// parsed, a rendition picked, its segments fetched a few at a time but
+// written in order, and the result remuxed by ffmpeg.
+
+const CONCURRENCY = Number(process.env.MANIFEST_CONCURRENCY) || 4;
+const SEGMENT_RETRIES = 2;
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024;
+
+// Manifests come as XML or playlist text, segments as media
+const STREAM_LIMITS: SafeFetchLimits = {
+	contentTypes: [
+		...MEDIA_LIMITS.contentTypes,
+		"application/dash+xml",
+		"application/vnd.apple.mpegurl",
+		"application/x-mpegurl",
+		"application/xml",
+		"text/",
+	],
+	maxBytes: MEDIA_LIMITS.maxBytes,
+};
+
+// Default FetchResource, going through safeFetch with the given headers
+// (a platform's User-Agent or Referer)
+export function httpFetcher(headers: Record<string, string> = {}): FetchResource {
+	return (url, { range, signal }) =>
+		safeFetch(url, {
+			headers: { ...headers, ...(range ? { Range: `bytes=${range.start}-${range.end}` } : {}) },
+			signal,
+		}, STREAM_LIMITS);
+}
+
+async function fetchText(url: string, fetchResource: FetchResource, signal?: AbortSignal) {
+	const response = await fetchResource(url, { signal });
+	if (!response.ok || !response.body) {
+		await response.body?.cancel();
+		throw new DownloadError("UPSTREAM_HTTP", `The stream manifest responded with status ${response.status}.`);
+	}
+
+	const chunks: Uint8Array[] = [];
+	let received = 0;
+	for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+		received += chunk.byteLength;
+		if (received > MAX_MANIFEST_BYTES) {
+			throw new DownloadError("TOO_LARGE", "The stream manifest is too large.");
+		}
+		chunks.push(chunk);
+	}
+	return Buffer.concat(chunks).toString("utf8");
+}
+
+// Parse the manifest at `url`, telling DASH and HLS apart by content
+export async function loadManifest(url: string, fetchResource: FetchResource, signal?: AbortSignal): Promise<Manifest> {
+	const text = await fetchText(url, fetchResource, signal);
+	return text.trimStart().startsWith("#EXTM3U") ? parseM3u8(text, url) : parseMpd(text, url);
+}
+
+function byQuality(a: Rendition, b: Rendition) {
+	return (b.height || 0) - (a.height || 0) || b.bandwidth - a.bandwidth;
+}
+
+// Pick the rendition for `quality`: a rendition id, a label such as "720p",
+// a maximum height such as "720", or the best one when null or "best".
+// Video-only renditions get the best matching audio track alongside.
+export function pickRenditions(manifest: Manifest, quality: string | null = null) {
+	const videos = manifest.renditions.filter((r) => r.kind !== "audio").sort(byQuality);
+	const audios = manifest.renditions.filter((r) => r.kind === "audio").sort(byQuality);
+	// Audio-only manifests are downloaded as they are
+	const candidates = videos.length > 0 ? videos : audios;
+
+	const maxHeight = quality ? parseInt(quality) : NaN;
+	const video =
+		candidates.find((r) => r.id === quality || r.label === quality) ??
+		(Number.isNaN(maxHeight) ? undefined : candidates.find((r) => (r.height || 0) <= maxHeight)) ??
+		candidates[0];
+	if (!video) {
+		throw new DownloadError("NO_FORMATS", "The stream manifest lists no playable renditions.");
+	}
+
+	const audio = video.kind === "video"
+		? audios.find((r) => video.group !== undefined && r.group === video.group) ?? audios[0]
+		: undefined;
+	return { video, audio };
+}
+
+// HLS variants from a master playlist still need their media playlist
+async function withSegments(rendition: Rendition, fetchResource: FetchResource, signal?: AbortSignal): Promise<Rendition> {
+	if (rendition.segments.length > 0 || !rendition.playlistUrl) return rendition;
+
+	const media = parseM3u8(await fetchText(rendition.playlistUrl, fetchResource, signal), rendition.playlistUrl).renditions[0];
+	if (!media || media.segments.length === 0 || media.playlistUrl) {
+		throw new DownloadError("NO_FORMATS", "The stream playlist lists no segments.");
+	}
+	return { ...rendition, init: media.init, segments: media.segments };
+}
+
+async function fetchSegment(segment: Segment, fetchResource: FetchResource, signal?: AbortSignal) {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			const response = await fetchResource(segment.url, { range: segment.range, signal });
+			// A server ignoring the Range would hand back the whole file
+			const expected = segment.range ? 206 : 200;
+			if (response.status !== expected) {
+				await response.body?.cancel();
+				throw new DownloadError("UPSTREAM_HTTP", `A stream segment responded with status ${response.status}.`);
+			}
+			return new Uint8Array(await response.arrayBuffer());
+		} catch (error) {
+			const permanent = error instanceof DownloadError && error.code !== "UPSTREAM_HTTP";
+			if (signal?.aborted || permanent || attempt >= SEGMENT_RETRIES) throw error;
+		}
+	}
+}
+
+// The init segment and media segments of `rendition` as one stream. Up to
+// `concurrency` segments are in flight, but they're emitted in order.
+export function segmentStream(
+	rendition: Rendition,
+	fetchResource: FetchResource,
+	{ concurrency = CONCURRENCY, signal }: { concurrency?: number; signal?: AbortSignal } = {}
+) {
+	const segments = rendition.init ? [rendition.init, ...rendition.segments] : rendition.segments;
+
+	async function* chunks() {
+		const inFlight: Promise<Uint8Array>[] = [];
+		let next = 0;
+		let total = 0;
+
+		while (next < segments.length || inFlight.length > 0) {
+			while (inFlight.length < concurrency && next < segments.length) {
+				const pending = fetchSegment(segments[next++], fetchResource, signal);
+				// Failures surface when their turn comes, not as unhandled rejections
+				pending.catch(() => {});
+				inFlight.push(pending);
+			}
+
+			const chunk = await inFlight.shift()!;
+			total += chunk.byteLength;
+			if (total > MEDIA_LIMITS.maxBytes) {
+				throw new DownloadError("TOO_LARGE", "The file is larger than this server allows.");
+			}
+			yield chunk;
+		}
+	}
+
+	return Readable.from(chunks(), { objectMode: false });
+}
+
+export interface ManifestStreamOptions {
+	// See pickRenditions
+	quality?: string | null;
+	container?: MuxContainer;
+	fetchResource?: FetchResource;
+	concurrency?: number;
+	signal?: AbortSignal;
+}
+
+// Download the stream behind a manifest URL as a single file in `container`
+export async function openManifestStream(url: string, options: ManifestStreamOptions = {}): Promise<Readable> {
+	const { quality = null, container = "mp4", fetchResource = httpFetcher(), concurrency, signal } = options;
+
+	const manifest = await loadManifest(url, fetchResource, signal);
+	const picked = pickRenditions(manifest, quality);
+	const [video, audio] = await Promise.all([
+		withSegments(picked.video, fetchResource, signal),
+		picked.audio && withSegments(picked.audio, fetchResource, signal),
+	]);
+
+	const videoStream = segmentStream(video, fetchResource, { concurrency, signal });
+	const audioStream = audio && segmentStream(audio, fetchResource, { concurrency, signal });
+
+	try {
+		return audioStream
+			? await muxStreams(videoStream, audioStream, container, signal)
+			: await remuxStream(videoStream, container, signal);
+	} catch (error) {
+		videoStream.destroy();
+		audioStream?.destroy();
+		throw new DownloadError("INTERNAL", "Merging stream segments is not available on this server.", { cause: error });
+	}
+}
@@ -0,0 +1,130 @@
+import { DownloadError } from "@/lib/errors";
+import type { ByteRange } from "@/lib/range";
+import type { Manifest, Rendition, Segment } from "./types";
+
+// HLS (M3U8) parsing. A master playlist yields one rendition per variant
+// (plus alternate audio) with only its playlistUrl set; a media playlist
+// yields a single rendition with its segments.
+
+// "BANDWIDTH=1280000,CODECS=\"avc1.4d401f,mp4a.40.2\"" into a record
+function attributeList(value: string) {
+	const attrs: Record<string, string> = {};
+	for (const [, name, quoted, plain] of value.matchAll(/([A-Z0-9-]+)=(?:"([^"]*)"|([^,]*))/g)) {
+		attrs[name] = quoted ?? plain;
+	}
+	return attrs;
+}
+
+// "length[@offset]", continuing after the previous range when no offset is given
+function byteRange(value: string, previous: ByteRange | undefined): ByteRange {
+	const [length, offset] = value.split("@").map(Number);
+	const start = offset ?? (previous ? previous.end + 1 : 0);
+	return { start, end: start + length - 1 };
+}
+
+function tagValue(line: string) {
+	return line.slice(line.indexOf(":") + 1);
+}
+
+function parseMaster(lines: string[], playlistUrl: string): Rendition[] {
+	const renditions: Rendition[] = [];
+	const audioGroups = new Set<string>();
+
+	// Alternate audio, keeping the default (or first) track of each group
+	for (const line of lines.filter((l) => l.startsWith("#EXT-X-MEDIA:"))) {
+		const attrs = attributeList(tagValue(line));
+		if (attrs.TYPE !== "AUDIO" || !attrs.URI) continue;
+
+		const group = attrs["GROUP-ID"];
+		const existing = renditions.findIndex((r) => r.group === group);
+		if (existing >= 0 && attrs.DEFAULT !== "YES") continue;
+
+		const rendition: Rendition = {
+			id: `audio-${group}-${attrs.NAME ?? renditions.length}`,
+			kind: "audio",
+			bandwidth: 0,
+			label: attrs.NAME,
+			group,
+			segments: [],
+			playlistUrl: new URL(attrs.URI, playlistUrl).href,
+		};
+		if (existing >= 0) renditions[existing] = rendition;
+		else renditions.push(rendition);
+		audioGroups.add(group);
+	}
+
+	lines.forEach((line, index) => {
+		if (!line.startsWith("#EXT-X-STREAM-INF:")) return;
+		const uri = lines.slice(index + 1).find((l) => !l.startsWith("#"));
+		if (!uri) return;
+
+		const attrs = attributeList(tagValue(line));
+		const height = Number(attrs.RESOLUTION?.split("x")[1]) || undefined;
+		const audioOnly = !height && Boolean(attrs.CODECS) && !/avc|hvc|hev|vp0?9|av01/.test(attrs.CODECS);
+		const kind = audioOnly ? "audio" : attrs.AUDIO && audioGroups.has(attrs.AUDIO) ? "video" : "muxed";
+
+		renditions.push({
+			id: String(renditions.length),
+			kind,
+			bandwidth: Number(attrs["AVERAGE-BANDWIDTH"] || attrs.BANDWIDTH) || 0,
+			height,
+			codecs: attrs.CODECS,
+			group: kind === "video" ? attrs.AUDIO : undefined,
+			segments: [],
+			playlistUrl: new URL(uri, playlistUrl).href,
+		});
+	});
+
+	return renditions;
+}
+
+function parseMedia(lines: string[], playlistUrl: string): Rendition {
+	const segments: Segment[] = [];
+	let init: Segment | undefined;
+	let range: ByteRange | undefined;
+	let previousRange: ByteRange | undefined;
+	let ended = false;
+
+	for (const line of lines) {
+		if (line.startsWith("#EXT-X-KEY:")) {
+			const method = attributeList(tagValue(line)).METHOD;
+			if (method && method !== "NONE") {
+				throw new DownloadError("NO_FORMATS", "This stream is encrypted and can't be downloaded.");
+			}
+		} else if (line.startsWith("#EXT-X-MAP:")) {
+			const attrs = attributeList(tagValue(line));
+			init = {
+				url: new URL(attrs.URI, playlistUrl).href,
+				range: attrs.BYTERANGE ? byteRange(attrs.BYTERANGE, undefined) : undefined,
+			};
+		} else if (line.startsWith("#EXT-X-BYTERANGE:")) {
+			range = byteRange(tagValue(line), previousRange);
+		} else if (line.startsWith("#EXT-X-ENDLIST") || line === "#EXT-X-PLAYLIST-TYPE:VOD") {
+			ended = true;
+		} else if (!line.startsWith("#")) {
+			segments.push({ url: new URL(line, playlistUrl).href, range });
+			previousRange = range;
+			range = undefined;
+		}
+	}
+
+	// A live playlist only lists a sliding window of recent segments
+	if (!ended) {
+		throw new DownloadError("NO_FORMATS", "Live streams can only be downloaded once they have ended.");
+	}
+
+	return { id: "0", kind: "muxed", bandwidth: 0, init, segments };
+}
+
+export function parseM3u8(text: string, playlistUrl: string): Manifest {
+	const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+	if (lines[0] !== "#EXTM3U") {
+		throw new DownloadError("NO_FORMATS", "The stream manifest could not be read.");
+	}
+
+	const isMaster = lines.some((line) => line.startsWith("#EXT-X-STREAM-INF:"));
+	return {
+		format: "hls",
+		renditions: isMaster ? parseMaster(lines, playlistUrl) : [parseMedia(lines, playlistUrl)],
+	};
+}
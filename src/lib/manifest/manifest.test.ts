@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { test } from "node:test";
+import { loadManifest, parseM3u8, parseMpd, pickRenditions, segmentStream, type FetchResource } from "@/lib/manifest";
+
+// Parsing and downloading against the manifests in ./fixtures, through a
+// FetchResource that never reaches the network
+
+const FIXTURES = join(__dirname, "fixtures");
+
+function fixture(name: string) {
+	return readFileSync(join(FIXTURES, name), "utf8");
+}
+
+// Manifests by file name, anything else answers with its own URL and range
+// after a random delay, so out-of-order arrivals show up
+const fixtureFetcher: FetchResource = async (url, { range }) => {
+	const name = new URL(url).pathname.split("/").pop()!;
+	if (/\.(mpd|m3u8)$/.test(name)) return new Response(fixture(name));
+
+	await new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+	const body = range ? `${url}#${range.start}-${range.end}|` : `${url}|`;
+	return new Response(body, { status: range ? 206 : 200 });
+};
+
+test("DASH SegmentTemplate with a timeline", () => {
+	const manifest = parseMpd(fixture("timeline.mpd"), "https://cdn.example.com/dash/manifest.mpd");
+	assert.equal(manifest.format, "dash");
+	assert.deepEqual(manifest.renditions.map((r) => [r.id, r.kind, r.height]), [
+		["v360", "video", 360],
+		["v720", "video", 720],
+		["a128", "audio", undefined],
+	]);
+
+	const [v360, , audio] = manifest.renditions;
+	assert.equal(v360.init?.url, "https://cdn.example.com/dash/media/v360/init.mp4");
+	assert.deepEqual(v360.segments.map((s) => s.url), [
+		"https://cdn.example.com/dash/media/v360/001.m4s?t=0&b=800000",
+		"https://cdn.example.com/dash/media/v360/002.m4s?t=4000&b=800000",
+		"https://cdn.example.com/dash/media/v360/003.m4s?t=8000&b=800000",
+	]);
+	// 10s in 4s segments, numbered from startNumber
+	assert.deepEqual(audio.segments.map((s) => s.url.split("/").pop()), ["0.m4s", "1.m4s", "2.m4s"]);
+
+	const best = pickRenditions(manifest);
+	assert.equal(best.video.id, "v720");
+	assert.equal(best.audio?.id, "a128");
+	assert.equal(pickRenditions(manifest, "360").video.id, "v360");
+	assert.equal(pickRenditions(manifest, "v360").video.id, "v360");
+});
+
+test("DASH single files and byte-range segment lists", () => {
+	const manifest = parseMpd(fixture("segment-base.mpd"), "https://www.facebook.com/manifest.mpd");
+	const [hd, sd] = manifest.renditions;
+
+	assert.equal(hd.label, "720p");
+	assert.equal(hd.init, undefined);
+	assert.deepEqual(hd.segments, [{ url: "https://video.example.com/hd.mp4?a=1&b=2" }]);
+
+	assert.deepEqual(sd.init, { url: "https://video.example.com/sd.mp4", range: { start: 0, end: 499 } });
+	assert.deepEqual(sd.segments.map((s) => s.range), [{ start: 500, end: 999 }, { start: 1000, end: 1499 }]);
+
+	const picked = pickRenditions(manifest, "360p");
+	assert.equal(picked.video.id, "sd");
+	assert.equal(picked.audio, undefined);
+});
+
+test("HLS master playlist with alternate audio", () => {
+	const manifest = parseM3u8(fixture("master.m3u8"), "https://cdn.example.com/hls/master.m3u8");
+	assert.equal(manifest.format, "hls");
+	assert.deepEqual(manifest.renditions.map((r) => [r.kind, r.height, r.bandwidth, r.playlistUrl]), [
+		["audio", undefined, 0, "https://cdn.example.com/hls/audio/orig.m3u8"],
+		["video", 360, 900000, "https://cdn.example.com/hls/360/index.m3u8"],
+		["video", 720, 2600000, "https://cdn.example.com/hls/720/index.m3u8"],
+		["audio", undefined, 64000, "https://cdn.example.com/hls/audio-only/index.m3u8"],
+	]);
+
+	// The default track of the video's group, not the better audio-only variant
+	const best = pickRenditions(manifest);
+	assert.equal(best.video.height, 720);
+	assert.equal(best.audio?.label, "Original");
+});
+
+test("HLS media playlist with an init map and byte ranges", () => {
+	const [media] = parseM3u8(fixture("media.m3u8"), "https://cdn.example.com/hls/720/index.m3u8").renditions;
+	assert.deepEqual(media.init, { url: "https://cdn.example.com/hls/720/video.mp4", range: { start: 0, end: 719 } });
+	assert.deepEqual(media.segments, [
+		{ url: "https://cdn.example.com/hls/720/video.mp4", range: { start: 720, end: 1719 } },
+		{ url: "https://cdn.example.com/hls/720/video.mp4", range: { start: 1720, end: 2919 } },
+		{ url: "https://cdn.example.com/hls/720/segment-3.m4s", range: undefined },
+	]);
+});
+
+test("live, encrypted and unreadable manifests are refused", () => {
+	assert.throws(() => parseM3u8(fixture("live.m3u8"), "https://cdn.example.com/live.m3u8"), { code: "NO_FORMATS" });
+	assert.throws(() => parseM3u8(fixture("encrypted.m3u8"), "https://cdn.example.com/encrypted.m3u8"), { code: "NO_FORMATS" });
+	assert.throws(() => parseMpd("<html></html>", "https://cdn.example.com/page.mpd"), { code: "NO_FORMATS" });
+});
+
+test("segments are fetched concurrently and written in order", async () => {
+	const manifest = await loadManifest("https://cdn.example.com/hls/720/media.m3u8", fixtureFetcher);
+	const [rendition] = manifest.renditions;
+
+	let output = "";
+	for await (const chunk of segmentStream(rendition, fixtureFetcher, { concurrency: 3 })) {
+		output += chunk.toString();
+	}
+	assert.deepEqual(output.split("|").filter(Boolean), [
+		"https://cdn.example.com/hls/720/video.mp4#0-719",
+		"https://cdn.example.com/hls/720/video.mp4#720-1719",
+		"https://cdn.example.com/hls/720/video.mp4#1720-2919",
+		"https://cdn.example.com/hls/720/segment-3.m4s",
+	]);
+});
@@ -0,0 +1,220 @@
+import { DownloadError } from "@/lib/errors";
+import type { ByteRange } from "@/lib/range";
+import type { Manifest, Rendition, Segment } from "./types";
+
+// DASH (MPD) parsing. Supports the three ways a representation can address
+// its media: one file under BaseURL (SegmentBase), an explicit SegmentList,
+// and a SegmentTemplate with either a fixed duration or a SegmentTimeline.
+// Only the first Period is read; multi-period manifests are ad breaks.
+
+// Hard cap so a hostile manifest can't make us queue millions of fetches
+const MAX_SEGMENTS = 50_000;
+
+interface XmlNode {
+	name: string;
+	attrs: Record<string, string>;
+	children: XmlNode[];
+	text: string;
+}
+
+function unescapeXml(value: string) {
+	return value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+// Just enough XML for manifests: elements, attributes and text. Namespace
+// prefixes are dropped, comments and processing instructions skipped.
+function parseXml(xml: string): XmlNode {
+	const root: XmlNode = { name: "#root", attrs: {}, children: [], text: "" };
+	const stack = [root];
+	const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)(?:[\w.-]+:)?([\w.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+	for (const [, closing, name, attrText, selfClosing, text] of xml.matchAll(token)) {
+		const parent = stack[stack.length - 1];
+		if (text !== undefined) {
+			parent.text += unescapeXml(text);
+		} else if (closing) {
+			if (stack.length > 1) stack.pop();
+		} else if (name) {
+			const attrs: Record<string, string> = {};
+			for (const [, attr, , double, single] of (attrText ?? "").matchAll(/(?:[\w.-]+:)?([\w.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+				attrs[attr] = unescapeXml(double ?? single);
+			}
+			const node: XmlNode = { name, attrs, children: [], text: "" };
+			parent.children.push(node);
+			if (!selfClosing) stack.push(node);
+		}
+	}
+	return root;
+}
+
+function child(node: XmlNode | undefined, name: string) {
+	return node?.children.find((c) => c.name === name);
+}
+
+function childrenNamed(node: XmlNode, name: string) {
+	return node.children.filter((c) => c.name === name);
+}
+
+function resolveBase(node: XmlNode, base: string) {
+	const baseUrl = child(node, "BaseURL")?.text.trim();
+	return baseUrl ? new URL(baseUrl, base).href : base;
+}
+
+// "PT1H2M3.5S" in seconds
+function parseDuration(value: string | undefined) {
+	const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+	if (!match) return undefined;
+	const [, days, hours, minutes, seconds] = match.map((part) => Number(part) || 0);
+	return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+// "500-999" as used by mediaRange, indexRange and Initialization@range
+function parseByteRange(value: string | undefined): ByteRange | undefined {
+	const match = value?.match(/^(\d+)-(\d+)$/);
+	return match ? { start: Number(match[1]), end: Number(match[2]) } : undefined;
+}
+
+// Fill in $RepresentationID$, $Number$, $Time$ and $Bandwidth$, with
+// optional printf-style padding such as $Number%05d$
+function fillTemplate(template: string, values: Record<string, string | number>) {
+	return template.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (whole, name: string, width?: string) => {
+		if (!name) return "$";
+		const value = values[name];
+		if (value === undefined) return whole;
+		return width ? String(value).padStart(Number(width), "0") : String(value);
+	});
+}
+
+// SegmentTemplate/SegmentList attributes are inherited from the Period and
+// AdaptationSet, with the innermost element winning
+function inherited(name: string, ...levels: XmlNode[]) {
+	const nodes = levels.map((level) => child(level, name)).filter((node): node is XmlNode => Boolean(node));
+	if (nodes.length === 0) return undefined;
+	return {
+		attrs: Object.assign({}, ...nodes.map((node) => node.attrs)) as Record<string, string>,
+		// Child elements (timeline, segment URLs) come from the nearest level having them
+		nodes,
+	};
+}
+
+function templateSegments(
+	template: NonNullable<ReturnType<typeof inherited>>,
+	base: string,
+	rep: Record<string, string>,
+	periodSeconds: number | undefined
+) {
+	const { attrs } = template;
+	const timescale = Number(attrs.timescale) || 1;
+	const startNumber = attrs.startNumber ? Number(attrs.startNumber) : 1;
+	const values = { RepresentationID: rep.id ?? "", Bandwidth: rep.bandwidth ?? "" };
+	const urlFor = (number: number, time: number) =>
+		new URL(fillTemplate(attrs.media, { ...values, Number: number, Time: time }), base).href;
+
+	const segments: Segment[] = [];
+	const timeline = template.nodes.map((node) => child(node, "SegmentTimeline")).findLast(Boolean);
+
+	if (timeline) {
+		const periodEnd = periodSeconds !== undefined ? periodSeconds * timescale : undefined;
+		let time = 0;
+		let number = startNumber;
+		for (const s of childrenNamed(timeline, "S")) {
+			if (s.attrs.t !== undefined) time = Number(s.attrs.t);
+			const duration = Number(s.attrs.d);
+			let repeat = Number(s.attrs.r) || 0;
+			// r="-1" repeats until the end of the period
+			if (repeat < 0) {
+				repeat = periodEnd !== undefined && duration > 0 ? Math.ceil((periodEnd - time) / duration) - 1 : 0;
+			}
+			for (let i = 0; i <= repeat && segments.length < MAX_SEGMENTS; i++) {
+				segments.push({ url: urlFor(number++, time) });
+				time += duration;
+			}
+		}
+	} else {
+		const duration = Number(attrs.duration);
+		if (!duration || periodSeconds === undefined) {
+			throw new DownloadError("NO_FORMATS", "Live streams can only be downloaded once they have ended.");
+		}
+		const count = Math.min(Math.ceil((periodSeconds * timescale) / duration), MAX_SEGMENTS);
+		for (let i = 0; i < count; i++) {
+			segments.push({ url: urlFor(startNumber + i, i * duration) });
+		}
+	}
+
+	const init = attrs.initialization
+		? { url: new URL(fillTemplate(attrs.initialization, values), base).href }
+		: undefined;
+	return { init, segments };
+}
+
+function listSegments(list: NonNullable<ReturnType<typeof inherited>>, base: string) {
+	const initNode = list.nodes.map((node) => child(node, "Initialization")).findLast(Boolean);
+	const urlNodes = list.nodes.map((node) => childrenNamed(node, "SegmentURL")).findLast((nodes) => nodes.length > 0) ?? [];
+
+	const init = initNode
+		? { url: new URL(initNode.attrs.sourceURL ?? "", base).href, range: parseByteRange(initNode.attrs.range) }
+		: undefined;
+	const segments = urlNodes.slice(0, MAX_SEGMENTS).map((node): Segment => ({
+		url: new URL(node.attrs.media ?? "", base).href,
+		range: parseByteRange(node.attrs.mediaRange),
+	}));
+	return { init, segments };
+}
+
+function renditionKind(mimeType: string, codecs: string | undefined): Rendition["kind"] {
+	if (mimeType.startsWith("audio")) return "audio";
+	if (codecs && /mp4a|opus|vorbis|ac-3|ec-3/.test(codecs) && /avc|hvc|hev|vp0?9|vp8|av01/.test(codecs)) {
+		return "muxed";
+	}
+	return "video";
+}
+
+// Every representation of the first Period, with segment URLs resolved
+// against `manifestUrl`
+export function parseMpd(xml: string, manifestUrl: string): Manifest {
+	const mpd = child(parseXml(xml), "MPD");
+	const period = child(mpd, "Period");
+	if (!mpd || !period) {
+		throw new DownloadError("NO_FORMATS", "The stream manifest could not be read.");
+	}
+
+	const periodSeconds = parseDuration(period.attrs.duration) ?? parseDuration(mpd.attrs.mediaPresentationDuration);
+	const periodBase = resolveBase(period, resolveBase(mpd, manifestUrl));
+	const renditions: Rendition[] = [];
+
+	for (const set of childrenNamed(period, "AdaptationSet")) {
+		const setBase = resolveBase(set, periodBase);
+
+		for (const repNode of childrenNamed(set, "Representation")) {
+			const rep = { ...set.attrs, ...repNode.attrs };
+			const base = resolveBase(repNode, setBase);
+			const template = inherited("SegmentTemplate", period, set, repNode);
+			const list = inherited("SegmentList", period, set, repNode);
+
+			// Without a template or list the representation is a single file
+			const { init, segments } = template?.attrs.media
+				? templateSegments(template, base, rep, periodSeconds)
+				: list
+					? listSegments(list, base)
+					: { init: undefined, segments: [{ url: base }] };
+
+			renditions.push({
+				id: rep.id ?? String(renditions.length),
+				kind: renditionKind(rep.mimeType || rep.contentType || "", rep.codecs),
+				bandwidth: Number(rep.bandwidth) || 0,
+				height: rep.height ? Number(rep.height) : undefined,
+				label: rep.FBQualityLabel,
+				codecs: rep.codecs,
+				init,
+				segments,
+			});
+		}
+	}
+
+	return { format: "dash", renditions };
+}
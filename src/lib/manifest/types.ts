@@ -0,0 +1,36 @@
+import type { ByteRange } from "@/lib/range";
+
+export interface Segment {
+	url: string;
+	// Part of the resource to fetch, for manifests that index into one file
+	range?: ByteRange;
+}
+
+export interface Rendition {
+	// Representation id (DASH) or a synthetic one (HLS)
+	id: string;
+	// "muxed" carries both video and audio
+	kind: "video" | "audio" | "muxed";
+	bandwidth: number;
+	height?: number;
+	// The platform's own label when the manifest has one, e.g. "720p"
+	label?: string;
+	codecs?: string;
+	// HLS: the audio group this rendition belongs to (audio) or plays with (video)
+	group?: string;
+	// Fragmented MP4 initialization segment, sent before the media segments
+	init?: Segment;
+	segments: Segment[];
+	// HLS master playlists only list variants, their segments are in this
+	// media playlist and loaded once the rendition is picked
+	playlistUrl?: string;
+}
+
+export interface Manifest {
+	format: "dash" | "hls";
+	renditions: Rendition[];
+}
+
+// Fetches a manifest or segment. Swappable so parsing and downloading can
+// run against local fixture files instead of a CDN.
+export type FetchResource = (url: string, options: { range?: ByteRange; signal?: AbortSignal }) => Promise<Response>;
@@ -0,0 +1,45 @@
+// CDN hosts the proxies may fetch media from. Also feeds
+// images.remotePatterns in next.config.ts, so keep it free of imports.
+// `*` matches within one label, `**` across any number of subdomains.
+export const MEDIA_HOSTS = [
+	"i.instagram.com",
+	"scontent.cdninstagram.com",
+	"**.cdninstagram.com",
+	"**.fbcdn.net",
+	"scontent-*.fna.fbcdn.net",
+	// YouTube HLS/DASH manifests and their segments
+	"**.googlevideo.com",
+];
+
+function hostPattern(pattern: string) {
+	const source = pattern
+		.split("**")
+		.map((part) => part.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^.]+"))
+		.join(".+");
+	return new RegExp(`^${source}$`, "i");
+}
+
+// Hosts of the pages the extractors load themselves
+export const INSTAGRAM_PAGE_HOSTS = ["instagram.com", "**.instagram.com"];
+export const FACEBOOK_PAGE_HOSTS = ["facebook.com", "**.facebook.com", "fb.com", "**.fb.com", "fb.watch"];
+
+const HOST_PATTERNS = MEDIA_HOSTS.map(hostPattern);
+
+export function isAllowedMediaHost(hostname: string) {
+	return HOST_PATTERNS.some((pattern) => pattern.test(hostname));
+}
+
+export function isAllowedHost(hostname: string, hosts: readonly string[]) {
+	return hosts.some((host) => hostPattern(host).test(hostname));
+}
+
+// Whether `input` is a web link to one of `hosts`, judged by the parsed
+// hostname rather than anywhere in the string
+export function isPageUrl(input: string, hosts: readonly string[]) {
+	try {
+		const url = new URL(input);
+		return (url.protocol === "https:" || url.protocol === "http:") && !url.port && isAllowedHost(url.hostname, hosts);
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,76 @@
+// Sidecar files that keep a download's provenance next to it: a .json with
+// every metadata field, and a Kodi-style .nfo that media servers can read.
+// Kept free of server-only imports, the files are built in the browser.
+
+import type { DownloadSuccess } from "@/lib/download-result";
+import { safeTitle } from "@/lib/filename";
+
+export type SidecarFormat = "json" | "nfo";
+
+const CONTENT_TYPES: Record<SidecarFormat, string> = {
+	json: "application/json",
+	nfo: "text/xml",
+};
+
+function escapeXml(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// Local thumbnails (image proxy, placeholder) mean nothing outside this site
+function publicThumbnail(result: DownloadSuccess) {
+	return result.thumbnail?.startsWith("http") ? result.thumbnail : undefined;
+}
+
+export function metadataJson(result: DownloadSuccess, downloadedAt = new Date()) {
+	const { platform, sourceUrl, ...details } = result.metadata;
+	return JSON.stringify(
+		{
+			title: result.title,
+			type: result.type,
+			platform,
+			sourceUrl,
+			...details,
+			thumbnail: publicThumbnail(result),
+			downloadedAt: downloadedAt.toISOString(),
+		},
+		null,
+		2
+	);
+}
+
+export function metadataNfo(result: DownloadSuccess, downloadedAt = new Date()) {
+	const { metadata } = result;
+	const fields: [string, string | number | undefined][] = [
+		["title", result.title],
+		["plot", metadata.description],
+		["runtime", metadata.durationSeconds !== undefined ? Math.round(metadata.durationSeconds / 60) : undefined],
+		["premiered", metadata.publishedAt?.slice(0, 10)],
+		["studio", metadata.platform],
+		["director", metadata.author],
+		["thumb", publicThumbnail(result)],
+		["sourceurl", metadata.sourceUrl],
+		["dateadded", downloadedAt.toISOString().slice(0, 19).replace("T", " ")],
+	];
+
+	const lines = fields
+		.filter((field): field is [string, string | number] => field[1] !== undefined && field[1] !== "")
+		.map(([tag, value]) => `\t<${tag}>${escapeXml(String(value))}</${tag}>`);
+	if (metadata.id) {
+		lines.push(`\t<uniqueid type="${escapeXml(metadata.platform)}" default="true">${escapeXml(metadata.id)}</uniqueid>`);
+	}
+
+	return ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', "<movie>", ...lines, "</movie>", ""].join("\n");
+}
+
+// Contents, filename and MIME type of a sidecar for `result`
+export function buildSidecar(result: DownloadSuccess, format: SidecarFormat) {
+	return {
+		content: format === "json" ? metadataJson(result) : metadataNfo(result),
+		filename: `${safeTitle(result.title) || "download"}.${format}`,
+		type: CONTENT_TYPES[format],
+	};
+}
@@ -0,0 +1,501 @@
+import {
+	AUDIO_BITRATES,
+	AUDIO_FORMATS,
+	CALLBACK_EVENTS,
+	CALLBACK_STATES,
+	COLLECTION_TYPES,
+	CONTENT_TYPES,
+	JOB_KINDS,
+	JOB_STATUSES,
+	MEDIA_KINDS,
+	PROGRESS_STAGES,
+	SUBTITLE_FORMATS,
+	type CallbackDelivery,
+	type CollectionEntry,
+	type CollectionPage,
+	type DownloadCollection,
+	type DownloadJobRequest,
+	type DownloadSuccess,
+	type EntriesRequestBody,
+	type FormatOption,
+	type Job,
+	type JobArtifact,
+	type JobCallback,
+	type JobCallbackPayload,
+	type JobProgress,
+	type MediaItem,
+	type MediaMetadata,
+	type ProxyErrorBody,
+	type ProxyParams,
+	type ResolveJobRequest,
+	type ResolveRequestBody,
+	type StageEvent,
+	type SubtitleTrack,
+	type ZipJobRequest,
+} from "@/lib/download-result";
+import { SITE_NAME } from "@/lib/constant";
+import { ERROR_CODES, ERROR_STATUS, type ErrorCode } from "@/lib/errors";
+
+// OpenAPI 3.1 document for /api/v1 and /api/proxy, served at
+// /api/openapi.json. Object schemas are built from the contract types in
+// download-result: every field must be listed, and optional fields marked
+// as such, so changing a type without updating its schema fails to compile.
+
+interface JsonSchema {
+	type?: "string" | "integer" | "number" | "boolean" | "object" | "array";
+	const?: string | boolean;
+	enum?: readonly (string | number)[];
+	format?: string;
+	items?: JsonSchema;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	oneOf?: JsonSchema[];
+	discriminator?: { propertyName: string };
+	$ref?: string;
+	description?: string;
+}
+
+// Wraps the schema of a field declared with `?:`
+interface OptionalField {
+	optional: JsonSchema;
+}
+
+type Fields<T> = {
+	[K in keyof T]-?: Partial<Pick<T, K>> extends Pick<T, K> ? OptionalField : JsonSchema;
+};
+
+const string: JsonSchema = { type: "string" };
+const integer: JsonSchema = { type: "integer" };
+const number: JsonSchema = { type: "number" };
+const boolean: JsonSchema = { type: "boolean" };
+const uri: JsonSchema = { type: "string", format: "uri-reference" };
+const dateTime: JsonSchema = { type: "string", format: "date-time" };
+const callbackUrl = optional(describe({ type: "string", format: "uri" }, "https URL that is POSTed a signed JobCallbackPayload once the job succeeds or fails, not when it is cancelled"));
+
+function optional(schema: JsonSchema): OptionalField {
+	return { optional: schema };
+}
+
+function ref(name: string): JsonSchema {
+	return { $ref: `#/components/schemas/${name}` };
+}
+
+function oneOf(values: readonly (string | number)[], type: JsonSchema["type"] = "string"): JsonSchema {
+	return { type, enum: values };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+	return { type: "array", items };
+}
+
+function describe(schema: JsonSchema, description: string): JsonSchema {
+	return { ...schema, description };
+}
+
+function objectSchema<T>(fields: Fields<T>): JsonSchema {
+	const properties: Record<string, JsonSchema> = {};
+	const required: string[] = [];
+	for (const [name, field] of Object.entries<JsonSchema | OptionalField>(fields)) {
+		if ("optional" in field) {
+			properties[name] = field.optional;
+		} else {
+			properties[name] = field;
+			required.push(name);
+		}
+	}
+	return { type: "object", properties, required };
+}
+
+// Query params of a download link a client may set
+const proxyParams = objectSchema<ProxyParams>({
+	quality: optional(describe(string, "A format's itag, or `best`")),
+	format: optional(oneOf([...AUDIO_FORMATS, ...SUBTITLE_FORMATS])),
+	bitrate: optional(oneOf(AUDIO_BITRATES, "integer")),
+	container: optional(oneOf(["mp4", "mkv"])),
+});
+
+const schemas: Record<string, JsonSchema> = {
+	ErrorCode: oneOf(ERROR_CODES),
+	Error: objectSchema<ProxyErrorBody>({
+		error: describe(string, "Human readable message"),
+		code: ref("ErrorCode"),
+	}),
+	MediaItem: objectSchema<MediaItem>({
+		url: describe(string, "Direct platform URL, for previews"),
+		type: oneOf(MEDIA_KINDS),
+		quality: string,
+		thumbnail: optional(uri),
+		downloadUrl: optional(describe(uri, "Download link for this item alone")),
+	}),
+	FormatOption: objectSchema<FormatOption>({
+		itag: describe(integer, "Pass back as the `quality` param of the download link"),
+		label: string,
+		container: string,
+		codec: string,
+		bitrate: optional(number),
+		fps: optional(number),
+		height: optional(integer),
+		sizeBytes: optional(describe(integer, "Exact when the platform reports it, otherwise estimated")),
+		hasVideo: boolean,
+		hasAudio: boolean,
+	}),
+	SubtitleTrack: objectSchema<SubtitleTrack>({
+		language: string,
+		name: string,
+		autoGenerated: boolean,
+		downloadUrl: describe(uri, "Takes a `format` param of srt or vtt"),
+	}),
+	MediaMetadata: objectSchema<MediaMetadata>({
+		platform: string,
+		sourceUrl: string,
+		id: optional(string),
+		author: optional(string),
+		authorUrl: optional(string),
+		durationSeconds: optional(number),
+		viewCount: optional(integer),
+		likeCount: optional(integer),
+		publishedAt: optional(describe(string, "ISO 8601 date or date-time")),
+		description: optional(string),
+	}),
+	DownloadSuccess: objectSchema<DownloadSuccess>({
+		success: { const: true },
+		kind: { const: "media" },
+		message: string,
+		downloadUrl: uri,
+		type: oneOf(CONTENT_TYPES),
+		mediaType: oneOf(MEDIA_KINDS),
+		title: string,
+		thumbnail: optional(uri),
+		mediaUrls: arrayOf(ref("MediaItem")),
+		formats: optional(arrayOf(ref("FormatOption"))),
+		previewUrl: optional(describe(uri, "A single file served by byte range, for players. Absent when the video has to be merged on the fly")),
+		audioUrl: optional(describe(uri, "Audio-only download, takes `format` and `bitrate` params")),
+		subtitles: optional(arrayOf(ref("SubtitleTrack"))),
+		metadata: ref("MediaMetadata"),
+		cache: optional(oneOf(["hit", "miss"])),
+	}),
+	CollectionEntry: objectSchema<CollectionEntry>({
+		id: string,
+		url: string,
+		downloadUrl: uri,
+		title: string,
+		durationSeconds: optional(number),
+		thumbnail: optional(uri),
+	}),
+	DownloadCollection: objectSchema<DownloadCollection>({
+		success: { const: true },
+		kind: { const: "collection" },
+		message: string,
+		type: oneOf(COLLECTION_TYPES),
+		source: describe(string, "Pass to /api/v1/entries with `nextPage`"),
+		title: string,
+		thumbnail: optional(uri),
+		entries: arrayOf(ref("CollectionEntry")),
+		nextPage: optional(describe(string, "Cursor for the next page, absent on the last page")),
+	}),
+	CollectionPage: objectSchema<CollectionPage>({
+		success: { const: true },
+		entries: arrayOf(ref("CollectionEntry")),
+		nextPage: optional(string),
+	}),
+	ResolveRequest: objectSchema<ResolveRequestBody>({
+		url: describe(string, "YouTube, Instagram or Facebook page URL"),
+	}),
+	EntriesRequest: objectSchema<EntriesRequestBody>({
+		source: string,
+		cursor: string,
+	}),
+	ProxyParams: proxyParams,
+	ResolveJobRequest: objectSchema<ResolveJobRequest>({
+		kind: { const: "resolve" },
+		url: describe(string, "YouTube, Instagram or Facebook page URL"),
+		callbackUrl,
+	}),
+	DownloadJobRequest: objectSchema<DownloadJobRequest>({
+		kind: { const: "download" },
+		link: describe(uri, "A downloadUrl from a resolve result"),
+		params: optional(ref("ProxyParams")),
+		callbackUrl,
+	}),
+	ZipJobRequest: objectSchema<ZipJobRequest>({
+		kind: { const: "zip" },
+		name: optional(describe(string, "Archive name, without .zip")),
+		items: arrayOf(describe(uri, "A downloadUrl from a resolve result")),
+		callbackUrl,
+	}),
+	JobRequest: {
+		oneOf: [ref("ResolveJobRequest"), ref("DownloadJobRequest"), ref("ZipJobRequest")],
+		discriminator: { propertyName: "kind" },
+	},
+	StageEvent: objectSchema<StageEvent>({
+		stage: oneOf(PROGRESS_STAGES),
+		percent: optional(number),
+	}),
+	JobProgress: objectSchema<JobProgress>({
+		received: describe(integer, "Bytes saved so far"),
+		total: optional(integer),
+	}),
+	JobArtifact: objectSchema<JobArtifact>({
+		filename: string,
+		contentType: string,
+		size: integer,
+		downloadUrl: uri,
+	}),
+	CallbackDelivery: objectSchema<CallbackDelivery>({
+		event: oneOf(CALLBACK_EVENTS),
+		attempt: integer,
+		at: dateTime,
+		status: optional(describe(integer, "Receiver's response status, absent when it couldn't be reached")),
+		error: optional(string),
+		durationMs: integer,
+	}),
+	JobCallback: objectSchema<JobCallback>({
+		url: string,
+		state: describe(oneOf(CALLBACK_STATES), "Pending until a delivery got a 2xx response or all attempts failed, skipped when the job was cancelled"),
+		deliveries: arrayOf(ref("CallbackDelivery")),
+	}),
+	Job: objectSchema<Job>({
+		id: string,
+		kind: oneOf(JOB_KINDS),
+		status: oneOf(JOB_STATUSES),
+		attempts: describe(integer, "Runs so far, failed runs are retried with backoff"),
+		stage: optional(describe(ref("StageEvent"), "Latest stage of the current run")),
+		progress: optional(ref("JobProgress")),
+		result: optional(describe({
+			oneOf: [ref("DownloadSuccess"), ref("DownloadCollection")],
+			discriminator: { propertyName: "kind" },
+		}, "Set once a resolve job succeeds")),
+		artifact: optional(describe(ref("JobArtifact"), "Set once a download or zip job succeeds")),
+		error: optional(describe(ref("Error"), "Set once the job failed for good")),
+		createdAt: dateTime,
+		updatedAt: dateTime,
+		expiresAt: describe(dateTime, "When the job and its file are deleted"),
+		callback: optional(describe(ref("JobCallback"), "Delivery log of the job's callbackUrl")),
+	}),
+	JobCallbackPayload: objectSchema<JobCallbackPayload>({
+		event: oneOf(CALLBACK_EVENTS),
+		job: ref("Job"),
+	}),
+};
+
+// One response per status the error codes map to
+function errorResponses(codes: readonly ErrorCode[] = ERROR_CODES) {
+	const byStatus = new Map<number, ErrorCode[]>();
+	for (const code of codes) {
+		byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) ?? []), code]);
+	}
+	return Object.fromEntries(
+		[...byStatus].map(([status, statusCodes]) => [
+			String(status),
+			{
+				description: statusCodes.join(", "),
+				content: { "application/json": { schema: ref("Error") } },
+				...(status === 429 && {
+					headers: { "Retry-After": { description: "Seconds until the budget resets", schema: integer } },
+				}),
+			},
+		])
+	);
+}
+
+// Sent by the routes that charge the resolve budget
+const rateLimitResponseHeaders = {
+	"RateLimit-Limit": { description: "Resolves allowed per window", schema: integer },
+	"RateLimit-Remaining": { description: "Resolves left in the current window", schema: integer },
+	"RateLimit-Reset": { description: "Seconds until the window resets", schema: integer },
+};
+
+function jsonBody(schema: string) {
+	return { required: true, content: { "application/json": { schema: ref(schema) } } };
+}
+
+function jsonResponse(description: string, schema: JsonSchema) {
+	return { description, content: { "application/json": { schema } } };
+}
+
+const downloadParams = [
+	...Object.entries(proxyParams.properties!).map(([name, schema]) => ({ name, in: "query", schema })),
+	{ name: "Range", in: "header", schema: describe(string, "A single byte range, honoured where the response sends Accept-Ranges: bytes") },
+];
+
+const jobId = { name: "id", in: "path", required: true, schema: string };
+
+const fileResponses = {
+	"200": { description: "The file", content: { "application/octet-stream": { schema: { type: "string", format: "binary" } } } },
+	"206": { description: "The requested byte range" },
+	"416": { description: "The byte range is outside the file" },
+	...errorResponses(),
+};
+
+export function openApiDocument(origin: string) {
+	const secured = [{ bearerAuth: [] }, { apiKeyHeader: [] }];
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: `${SITE_NAME} API`,
+			version: "1",
+			description: "Resolve YouTube, Instagram and Facebook links and download their media. Download links are signed and expire.",
+		},
+		servers: [{ url: origin }],
+		components: {
+			securitySchemes: {
+				bearerAuth: { type: "http", scheme: "bearer" },
+				apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+			},
+			schemas,
+		},
+		paths: {
+			"/api/v1/resolve": {
+				post: {
+					operationId: "resolve",
+					summary: "Resolve a page URL into downloadable media or a collection",
+					security: secured,
+					requestBody: jsonBody("ResolveRequest"),
+					responses: {
+						"200": {
+							...jsonResponse("Media or a playlist/channel page", {
+								oneOf: [ref("DownloadSuccess"), ref("DownloadCollection")],
+								discriminator: { propertyName: "kind" },
+							}),
+							headers: rateLimitResponseHeaders,
+						},
+						...errorResponses(),
+					},
+				},
+			},
+			"/api/v1/entries": {
+				post: {
+					operationId: "loadMore",
+					summary: "Load the next page of a playlist or channel",
+					security: secured,
+					requestBody: jsonBody("EntriesRequest"),
+					responses: {
+						"200": { ...jsonResponse("The next page of entries", ref("CollectionPage")), headers: rateLimitResponseHeaders },
+						...errorResponses(),
+					},
+				},
+			},
+			"/api/v1/download/{id}": {
+				get: {
+					operationId: "download",
+					summary: "Download a file from a resolve result's links",
+					security: secured,
+					parameters: [
+						{ name: "id", in: "path", required: true, schema: describe(string, "Signed download token") },
+						...downloadParams,
+					],
+					responses: fileResponses,
+				},
+			},
+			"/api/v1/jobs": {
+				post: {
+					operationId: "submitJob",
+					summary: "Queue a resolve, download or zip to run in the background",
+					security: secured,
+					requestBody: jsonBody("JobRequest"),
+					responses: {
+						"202": {
+							...jsonResponse("The queued job", ref("Job")),
+							headers: { Location: { description: "URL of the job", schema: uri } },
+						},
+						...errorResponses(),
+					},
+				},
+			},
+			"/api/v1/jobs/{id}": {
+				parameters: [jobId],
+				get: {
+					operationId: "getJob",
+					summary: "Status, progress and outcome of a job",
+					security: secured,
+					responses: {
+						"200": jsonResponse("The job", ref("Job")),
+						...errorResponses(),
+					},
+				},
+				delete: {
+					operationId: "cancelJob",
+					summary: "Cancel a queued or running job, finished jobs are left as they are",
+					security: secured,
+					responses: {
+						"200": jsonResponse("The job", ref("Job")),
+						...errorResponses(),
+					},
+				},
+			},
+			"/api/v1/jobs/{id}/events": {
+				get: {
+					operationId: "watchJob",
+					summary: "Server-Sent Events: a `job` event with the Job on every change, closing once it has finished",
+					security: secured,
+					parameters: [jobId],
+					responses: {
+						"200": { description: "Event stream", content: { "text/event-stream": { schema: ref("Job") } } },
+						...errorResponses(),
+					},
+				},
+			},
+			"/api/v1/jobs/{id}/artifact": {
+				get: {
+					operationId: "downloadArtifact",
+					summary: "Download the file a succeeded download or zip job saved",
+					security: secured,
+					parameters: [
+						jobId,
+						{ name: "Range", in: "header", schema: describe(string, "A single byte range") },
+					],
+					responses: fileResponses,
+				},
+			},
+			"/api/proxy": {
+				get: {
+					operationId: "proxy",
+					summary: "Download link used by the web form, billed to the client IP",
+					parameters: [
+						{ name: "token", in: "query", required: true, schema: describe(string, "Signed download token") },
+						...downloadParams,
+					],
+					responses: fileResponses,
+				},
+				head: {
+					operationId: "checkProxyLink",
+					summary: "Check a download link's token and the client's byte budget without downloading",
+					parameters: [
+						{ name: "token", in: "query", required: true, schema: describe(string, "Signed download token") },
+					],
+					responses: {
+						"204": { description: "The link can be downloaded" },
+						"4XX": {
+							description: "The link can't be downloaded",
+							headers: {
+								"X-Error-Code": { schema: ref("ErrorCode") },
+								"X-Error-Message": { schema: describe(string, "URI-encoded message") },
+							},
+						},
+					},
+				},
+			},
+		},
+		webhooks: {
+			jobFinished: {
+				post: {
+					summary: "Sent to a job's callbackUrl once it succeeds or fails, retried with backoff until the receiver answers 2xx",
+					parameters: [
+						{ name: "X-Webhook-Event", in: "header", required: true, schema: oneOf(CALLBACK_EVENTS) },
+						{
+							name: "X-Webhook-Signature",
+							in: "header",
+							required: true,
+							schema: describe(string, "`t=<unix seconds>,v1=<hex HMAC-SHA256 of \"<t>.<body>\">`, keyed with the API key the job was submitted with"),
+						},
+					],
+					requestBody: jsonBody("JobCallbackPayload"),
+					responses: {
+						"2XX": { description: "Delivered, any other answer is retried" },
+					},
+				},
+			},
+		},
+	};
+}
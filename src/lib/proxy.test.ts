@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { before, test } from "node:test";
+
+// The token secret is read when the modules load, so they are imported
+// after the environment is set
+process.env.DOWNLOAD_TOKEN_SECRET = "test-secret";
+
+let tokens: typeof import("@/lib/download-token");
+let proxy: typeof import("@/lib/proxy");
+
+before(async () => {
+	[tokens, proxy] = await Promise.all([import("@/lib/download-token"), import("@/lib/proxy")]);
+});
+
+const MEDIA = { url: "https://www.facebook.com/watch/?v=1", type: "facebook", media_url: "https://video.fbcdn.net/v.mp4" };
+
+function linkQuery(link: string) {
+	return new URL(link, "http://localhost").searchParams;
+}
+
+test("a proxy link's params come back from its token", () => {
+	const query = linkQuery(tokens.proxyLink({ ...MEDIA, audio_url: undefined }, { quality: "hd" }));
+	assert.deepEqual([...query.keys()], ["token", "quality"]);
+
+	const params = proxy.signedParams(query);
+	assert.deepEqual(Object.fromEntries(params), { quality: "hd", ...MEDIA });
+	assert.equal(params.has("token"), false);
+});
+
+test("signed params win over ones the client changed", () => {
+	const query = linkQuery(tokens.proxyLink(MEDIA, { quality: "hd" }));
+	query.set("media_url", "https://169.254.169.254/");
+	query.set("type", "reel");
+	// Unsigned preferences may be changed
+	query.set("quality", "sd");
+
+	assert.deepEqual(Object.fromEntries(proxy.signedParams(query)), { quality: "sd", ...MEDIA });
+});
+
+test("expired links are refused with LINK_EXPIRED", (t) => {
+	let now = Date.now();
+	t.mock.method(Date, "now", () => now);
+	const query = linkQuery(tokens.proxyLink(MEDIA));
+
+	now += 2 * 60 * 60 * 1000;
+	assert.throws(() => proxy.signedParams(query), { code: "LINK_EXPIRED" });
+});
+
+test("links without a valid token are refused", () => {
+	assert.throws(() => proxy.signedParams(new URLSearchParams(MEDIA)), { code: "INVALID_URL" });
+	assert.throws(() => proxy.signedParams(new URLSearchParams({ ...MEDIA, token: "" })), { code: "INVALID_URL" });
+	assert.throws(() => proxy.signedParams(new URLSearchParams({ ...MEDIA, token: "bm9wZQ.x" })), { code: "INVALID_URL" });
+});
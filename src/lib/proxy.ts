@@ -0,0 +1,159 @@
+import { streamAudio } from "@/lib/audio";
+import type { ProxyErrorBody } from "@/lib/download-result";
+import { verifyDownloadToken } from "@/lib/download-token";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { findExtractorByProxyType, type StageReporter } from "@/lib/extractors";
+import { parseFilename } from "@/lib/filename";
+import { streamSubtitles } from "@/lib/subtitles";
+import type { ZipEntry } from "@/lib/zip";
+
+// A download link's params with its signed ones applied, which win over
+// anything the client appended. Throws INVALID_URL or LINK_EXPIRED for a
+// missing, forged or expired token.
+export function signedParams(query: URLSearchParams): URLSearchParams {
+	const token = query.get("token");
+	if (!token) {
+		throw new DownloadError("INVALID_URL", "Missing download token");
+	}
+
+	const searchParams = new URLSearchParams(query);
+	searchParams.delete("token");
+	try {
+		for (const [key, value] of Object.entries(verifyDownloadToken(token))) {
+			searchParams.set(key, value);
+		}
+	} catch (error) {
+		if (error instanceof DownloadError) throw error;
+		throw new DownloadError("INVALID_URL", "Invalid download link", { cause: error });
+	}
+	return searchParams;
+}
+
+// Serve a /api/proxy style request from its query params. Shared by
+// /api/proxy and routes that bundle several proxy links, like /api/zip.
+export async function openProxyStream(
+	query: URLSearchParams,
+	signal: AbortSignal,
+	range: string | null = null,
+	onStage?: StageReporter
+): Promise<Response> {
+	let searchParams: URLSearchParams;
+	try {
+		searchParams = signedParams(query);
+	} catch (error) {
+		const { code, message } = error as DownloadError;
+		return errorResponse(code, message);
+	}
+
+	const url = searchParams.get("url");
+	const type = searchParams.get("type");
+	const quality = searchParams.get("quality");
+	const mediaUrl = searchParams.get("media_url");
+
+	if (!url || !type) {
+		return errorResponse("INVALID_URL", "Missing URL or type");
+	}
+
+	const streamRequest = { url, type, quality, mediaUrl, searchParams, range, signal, onStage };
+
+	// Audio-only mode works across extractors
+	if (type === "audio") {
+		return await streamAudio(streamRequest);
+	}
+	if (type === "subtitles") {
+		return await streamSubtitles(streamRequest);
+	}
+
+	const extractor = findExtractorByProxyType(type);
+	if (!extractor) {
+		return errorResponse("UNSUPPORTED", "Unsupported content type");
+	}
+
+	return await extractor.stream(streamRequest);
+}
+
+// Query params of a download link, for /api/proxy links and their
+// /api/v1/download/:id form on any origin, as only the token is trusted.
+// Null for anything else.
+export function proxyQuery(link: string): URLSearchParams | null {
+	let url: URL;
+	try {
+		url = new URL(link, "http://localhost");
+	} catch {
+		return null;
+	}
+
+	const query = new URLSearchParams(url.searchParams);
+	const apiToken = url.pathname.match(/^\/api\/v1\/download\/([^/]+)$/)?.[1];
+	if (apiToken) {
+		try {
+			query.set("token", decodeURIComponent(apiToken));
+		} catch {
+			return null;
+		}
+		return query;
+	}
+	return url.pathname === "/api/proxy" && query.has("token") ? query : null;
+}
+
+// Avoid two entries with the same path inside the archive
+function uniqueName(name: string, used: Set<string>) {
+	let candidate = name;
+	for (let n = 2; used.has(candidate); n++) {
+		const dot = name.lastIndexOf(".");
+		candidate = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+	}
+	used.add(candidate);
+	return candidate;
+}
+
+async function errorMessage(response: Response) {
+	try {
+		const body: ProxyErrorBody = await response.json();
+		return body.error;
+	} catch {
+		return `status ${response.status}`;
+	}
+}
+
+// Archive entries for several proxy queries, fetched one after another.
+// Items that fail are listed in a failed.txt entry instead.
+export async function* proxyZipEntries(items: URLSearchParams[], signal: AbortSignal, maxBytes: number): AsyncGenerator<ZipEntry> {
+	const used = new Set<string>();
+	const problems: string[] = [];
+	let knownBytes = 0;
+
+	for (const [i, query] of items.entries()) {
+		let response: Response;
+		try {
+			response = await openProxyStream(query, signal);
+		} catch (error) {
+			console.error("ZIP item error:", error);
+			problems.push(`Item ${i + 1}: failed to download`);
+			continue;
+		}
+
+		if (!response.ok || !response.body) {
+			problems.push(`Item ${i + 1}: ${await errorMessage(response)}`);
+			continue;
+		}
+
+		// Skip items that would push the archive over the cap when the size
+		// is known up front; unknown sizes are enforced while streaming
+		const length = Number(response.headers.get("content-length")) || 0;
+		if (knownBytes + length > maxBytes) {
+			await response.body.cancel();
+			problems.push(`Item ${i + 1}: skipped, archive size limit reached`);
+			continue;
+		}
+		knownBytes += length;
+
+		const name = parseFilename(response.headers.get("content-disposition")) || `item-${i + 1}`;
+		yield { name: uniqueName(name, used), body: response.body };
+	}
+
+	if (problems.length > 0) {
+		yield { name: uniqueName("failed.txt", used), body: new Response(problems.join("\n")).body! };
+	}
+}
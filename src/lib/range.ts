@@ -0,0 +1,55 @@
+// HTTP Range helpers for /api/proxy. Only single byte ranges are
+// supported, which is all browsers and download managers send for media.
+
+export interface ByteRange {
+	start: number;
+	// Inclusive, as in the Content-Range header
+	end: number;
+}
+
+// Parse a Range header against a known size. Returns null when there is no
+// usable range (serve the whole file) and "unsatisfiable" for a 416.
+export function parseRange(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+	const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) return null;
+
+	let start: number;
+	let end: number;
+	if (!match[1]) {
+		// Suffix range: the last N bytes
+		start = Math.max(size - Number(match[2]), 0);
+		end = size - 1;
+	} else {
+		start = Number(match[1]);
+		// A range ending before it starts is malformed and ignored
+		if (match[2] && Number(match[2]) < start) return null;
+		end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+	}
+
+	if (start >= size) return "unsatisfiable";
+	return { start, end };
+}
+
+// Length headers for a response serving `range` of a `size` byte file
+export function rangeHeaders(range: ByteRange | null, size: number): Record<string, string> {
+	if (!range) {
+		return { "Accept-Ranges": "bytes", "Content-Length": String(size) };
+	}
+	return {
+		"Accept-Ranges": "bytes",
+		"Content-Length": String(range.end - range.start + 1),
+		"Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+	};
+}
+
+// Copy the length headers of an upstream response we pass through as-is
+export function upstreamRangeHeaders(upstream: Response): Record<string, string> {
+	const headers: Record<string, string> = {
+		"Accept-Ranges": upstream.headers.get("accept-ranges") === "none" ? "none" : "bytes",
+	};
+	for (const name of ["Content-Length", "Content-Range"]) {
+		const value = upstream.headers.get(name);
+		if (value) headers[name] = value;
+	}
+	return headers;
+}
@@ -0,0 +1,200 @@
+import { errorResponse } from "@/lib/error-response";
+import { createMemoryStore } from "./memory-store";
+import type { RateLimitStore } from "./types";
+
+export { createMemoryStore } from "./memory-store";
+export { createRedisStore, type RedisLikeClient } from "./redis-store";
+export type { RateLimitStore, WindowState } from "./types";
+
+// Separate budgets so cheap lookups don't compete with headless Chromium
+// launches or with the bandwidth /api/proxy relays
+export type Budget = "resolve" | "browser" | "bytes";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const BUDGETS: Record<Budget, { limit: number; windowMs: number }> = {
+	resolve: { limit: Number(process.env.RATE_LIMIT_RESOLVES_PER_MINUTE) || 30, windowMs: MINUTE },
+	browser: { limit: Number(process.env.RATE_LIMIT_BROWSER_PER_MINUTE) || 5, windowMs: MINUTE },
+	bytes: { limit: Number(process.env.RATE_LIMIT_BYTES_PER_HOUR) || 5 * 1024 * 1024 * 1024, windowMs: HOUR },
+};
+
+// Keys that get their own budget instead of sharing their IP's, and that
+// may call /api/v1
+const API_KEYS = new Set(
+	(process.env.API_KEYS ?? "").split(",").map((key) => key.trim()).filter(Boolean)
+);
+
+// Per-key limits replacing the defaults above, as JSON:
+// API_KEY_LIMITS={"<key>":{"resolve":120,"bytes":21474836480}}
+const API_KEY_LIMITS = parseKeyLimits(process.env.API_KEY_LIMITS);
+
+function parseKeyLimits(value: string | undefined): Record<string, Partial<Record<Budget, number>>> {
+	if (!value) return {};
+	try {
+		return JSON.parse(value);
+	} catch {
+		console.warn("API_KEY_LIMITS is not valid JSON, using the default limits for every key");
+		return {};
+	}
+}
+
+let store: RateLimitStore = createMemoryStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+	store = next;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	// When the budget refills, ms since the epoch
+	resetAt: number;
+	windowMs: number;
+}
+
+// The API key a request was sent with, from X-API-Key or a Bearer token,
+// whether or not it is a known one
+export function requestApiKey(headers: Headers) {
+	return headers.get("x-api-key") || headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] || null;
+}
+
+export function isApiKey(key: string | null): key is string {
+	return key !== null && API_KEYS.has(key);
+}
+
+// Proxies in front of the app that append to X-Forwarded-For. Entries left
+// of theirs come from the client and can be forged, so only the one the
+// outermost trusted proxy added is used. Vercel overwrites the header with
+// the client's address.
+const TRUSTED_PROXIES = Number(process.env.TRUSTED_PROXY_COUNT) || (process.env.VERCEL ? 1 : 0);
+
+let warnedUntrusted = false;
+
+function clientIp(headers: Headers) {
+	if (TRUSTED_PROXIES === 0) {
+		// Without a proxy the address can't be told from a forged one, and one
+		// shared budget would let any client lock everyone else out
+		if (process.env.NODE_ENV === "production") {
+			throw new Error("TRUSTED_PROXY_COUNT must be set to the number of proxies in front of the app, rate limits are per client address");
+		}
+		if (!warnedUntrusted) {
+			warnedUntrusted = true;
+			console.warn("TRUSTED_PROXY_COUNT is not set, clients without an API key share one rate-limit budget");
+		}
+		return "unknown";
+	}
+	const hops = (headers.get("x-forwarded-for") ?? "").split(",").map((hop) => hop.trim()).filter(Boolean);
+	return hops.at(-TRUSTED_PROXIES) ?? "unknown";
+}
+
+// Who a request is billed to: a known API key when one is sent, otherwise
+// the client IP as reported by a trusted proxy
+export function clientIdentity(headers: Headers) {
+	const apiKey = requestApiKey(headers);
+	if (isApiKey(apiKey)) return `key:${apiKey}`;
+	return `ip:${clientIp(headers)}`;
+}
+
+// The API key behind an identity from clientIdentity, if it has one
+export function identityApiKey(identity: string) {
+	return identity.startsWith("key:") ? identity.slice(4) : undefined;
+}
+
+// Charge `amount` against a budget. Allowed while the budget wasn't already
+// spent before this charge, so an amount of 0 checks without spending.
+export async function consume(identity: string, budget: Budget, amount = 1): Promise<RateLimitResult> {
+	const { windowMs } = BUDGETS[budget];
+	const apiKey = identityApiKey(identity);
+	const keyLimits = apiKey ? API_KEY_LIMITS[apiKey] : undefined;
+	const limit = keyLimits?.[budget] ?? BUDGETS[budget].limit;
+	const { count, resetAt } = await store.increment(`${budget}:${identity}`, amount, windowMs);
+	return {
+		allowed: count - amount < limit,
+		limit,
+		remaining: Math.max(limit - count, 0),
+		resetAt,
+		windowMs,
+	};
+}
+
+function secondsUntil(time: number) {
+	return Math.max(Math.ceil((time - Date.now()) / 1000), 0);
+}
+
+// RateLimit-* headers from the IETF draft, plus Retry-After once refused
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+	const headers: Record<string, string> = {
+		"RateLimit-Policy": `${result.limit};w=${result.windowMs / 1000}`,
+		"RateLimit-Limit": String(result.limit),
+		"RateLimit-Remaining": String(result.remaining),
+		"RateLimit-Reset": String(secondsUntil(result.resetAt)),
+	};
+	if (!result.allowed) headers["Retry-After"] = String(secondsUntil(result.resetAt));
+	return headers;
+}
+
+export function rateLimitMessage(result: RateLimitResult) {
+	const seconds = secondsUntil(result.resetAt);
+	const wait = seconds < 120 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+	return `Too many requests. Please try again in ${wait}.`;
+}
+
+export function rateLimitResponse(result: RateLimitResult) {
+	const response = errorResponse("RATE_LIMITED", rateLimitMessage(result));
+	for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+		response.headers.set(name, value);
+	}
+	return response;
+}
+
+// Charge bytes as they are relayed, every MiB and once the body ends or
+// the client goes away
+const CHARGE_EVERY = 1024 * 1024;
+
+export function meterBytes(response: Response, identity: string, quota: RateLimitResult): Response {
+	const headers = new Headers(response.headers);
+	for (const [name, value] of Object.entries(rateLimitHeaders(quota))) {
+		headers.set(name, value);
+	}
+	if (!response.body) {
+		return new Response(null, { status: response.status, statusText: response.statusText, headers });
+	}
+
+	const reader = response.body.getReader();
+	let pending = 0;
+	const charge = () => {
+		if (pending === 0) return;
+		consume(identity, "bytes", pending).catch((error) => console.error("Rate limit store error:", error));
+		pending = 0;
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			let chunk;
+			try {
+				chunk = await reader.read();
+			} catch (error) {
+				charge();
+				controller.error(error);
+				return;
+			}
+			const { done, value } = chunk;
+			if (done) {
+				charge();
+				controller.close();
+				return;
+			}
+			pending += value.byteLength;
+			if (pending >= CHARGE_EVERY) charge();
+			controller.enqueue(value);
+		},
+		cancel(reason) {
+			charge();
+			return reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, { status: response.status, statusText: response.statusText, headers });
+}
@@ -0,0 +1,28 @@
+import type { RateLimitStore, WindowState } from "./types";
+
+// Drop closed windows once the map grows past this many keys
+const SWEEP_THRESHOLD = 10_000;
+
+export function createMemoryStore(): RateLimitStore {
+	const windows = new Map<string, WindowState>();
+
+	const sweep = (now: number) => {
+		for (const [key, state] of windows) {
+			if (state.resetAt <= now) windows.delete(key);
+		}
+	};
+
+	return {
+		async increment(key, amount, windowMs) {
+			const now = Date.now();
+			let state = windows.get(key);
+			if (!state || state.resetAt <= now) {
+				if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+				state = { count: 0, resetAt: now + windowMs };
+				windows.set(key, state);
+			}
+			state.count += amount;
+			return { ...state };
+		},
+	};
+}
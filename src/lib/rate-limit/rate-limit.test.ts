@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { before, test } from "node:test";
+
+// Budgets and trusted proxies are read when the module loads, so it is
+// imported after the environment is set
+process.env.TRUSTED_PROXY_COUNT = "2";
+process.env.RATE_LIMIT_RESOLVES_PER_MINUTE = "2";
+process.env.API_KEYS = "test-key";
+process.env.API_KEY_LIMITS = JSON.stringify({ "test-key": { resolve: 5 } });
+
+let rateLimit: typeof import("@/lib/rate-limit");
+
+before(async () => {
+	rateLimit = await import("@/lib/rate-limit");
+});
+
+test("a budget refills once its window closes", async (t) => {
+	let now = 1_000_000;
+	t.mock.method(Date, "now", () => now);
+	rateLimit.setRateLimitStore(rateLimit.createMemoryStore());
+
+	const first = await rateLimit.consume("ip:1.2.3.4", "resolve");
+	assert.deepEqual(first, { allowed: true, limit: 2, remaining: 1, resetAt: now + 60_000, windowMs: 60_000 });
+	assert.equal((await rateLimit.consume("ip:1.2.3.4", "resolve")).allowed, true);
+	const refused = await rateLimit.consume("ip:1.2.3.4", "resolve");
+	assert.equal(refused.allowed, false);
+	assert.equal(refused.remaining, 0);
+
+	// Other identities and budgets are counted apart
+	assert.equal((await rateLimit.consume("ip:5.6.7.8", "resolve")).allowed, true);
+	assert.equal((await rateLimit.consume("ip:1.2.3.4", "browser")).allowed, true);
+	// Keys get the limit set for them
+	assert.equal((await rateLimit.consume("key:test-key", "resolve")).limit, 5);
+
+	now += 60_000;
+	const refilled = await rateLimit.consume("ip:1.2.3.4", "resolve");
+	assert.equal(refilled.allowed, true);
+	assert.equal(refilled.remaining, 1);
+});
+
+test("RateLimit headers, with Retry-After once refused", (t) => {
+	const now = 1_000_000;
+	t.mock.method(Date, "now", () => now);
+	const quota = { allowed: true, limit: 30, remaining: 12, resetAt: now + 42_500, windowMs: 60_000 };
+
+	assert.deepEqual(rateLimit.rateLimitHeaders(quota), {
+		"RateLimit-Policy": "30;w=60",
+		"RateLimit-Limit": "30",
+		"RateLimit-Remaining": "12",
+		"RateLimit-Reset": "43",
+	});
+	const refused = rateLimit.rateLimitHeaders({ ...quota, allowed: false, remaining: 0 });
+	assert.equal(refused["Retry-After"], "43");
+
+	const response = rateLimit.rateLimitResponse({ ...quota, allowed: false, remaining: 0 });
+	assert.equal(response.status, 429);
+	assert.equal(response.headers.get("retry-after"), "43");
+});
+
+test("the client address is the one the outermost trusted proxy added", () => {
+	const identity = (headers: Record<string, string>) => rateLimit.clientIdentity(new Headers(headers));
+
+	// Entries a client sent itself are ignored
+	assert.equal(identity({ "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" }), "ip:1.2.3.4");
+	assert.equal(identity({ "x-forwarded-for": "1.2.3.4 ,10.0.0.1" }), "ip:1.2.3.4");
+	// Fewer hops than trusted proxies means the header can't be trusted
+	assert.equal(identity({ "x-forwarded-for": "10.0.0.1" }), "ip:unknown");
+	assert.equal(identity({}), "ip:unknown");
+
+	assert.equal(identity({ "x-api-key": "test-key", "x-forwarded-for": "1.2.3.4, 10.0.0.1" }), "key:test-key");
+	assert.equal(identity({ authorization: "Bearer test-key" }), "key:test-key");
+	// Unknown keys are billed to their address
+	assert.equal(identity({ "x-api-key": "other", "x-forwarded-for": "1.2.3.4, 10.0.0.1" }), "ip:1.2.3.4");
+});
+
+test("relayed bytes are charged to the identity", async () => {
+	rateLimit.setRateLimitStore(rateLimit.createMemoryStore());
+	const quota = await rateLimit.consume("ip:9.9.9.9", "bytes", 0);
+	const upstream = new Response(new Blob([new Uint8Array(1000), new Uint8Array(234)]), {
+		headers: { "content-type": "video/mp4" },
+	});
+
+	const metered = rateLimit.meterBytes(upstream, "ip:9.9.9.9", quota);
+	assert.equal(metered.headers.get("content-type"), "video/mp4");
+	assert.equal(metered.headers.get("ratelimit-remaining"), String(quota.remaining));
+	assert.equal((await metered.arrayBuffer()).byteLength, 1234);
+
+	// The charge is written without waiting for the store
+	await new Promise((resolve) => setImmediate(resolve));
+	const after = await rateLimit.consume("ip:9.9.9.9", "bytes", 0);
+	assert.equal(after.remaining, quota.remaining - 1234);
+});
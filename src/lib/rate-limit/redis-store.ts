@@ -0,0 +1,27 @@
+import type { RateLimitStore } from "./types";
+
+// The subset of commands used, matching ioredis and other clients that
+// expose Redis commands as lowercase methods
+export interface RedisLikeClient {
+	incrby(key: string, increment: number): Promise<number>;
+	pexpire(key: string, milliseconds: number): Promise<number>;
+	pttl(key: string): Promise<number>;
+}
+
+// Shares counters across instances through Redis (or anything speaking its
+// protocol). Install with setRateLimitStore(createRedisStore(client)).
+export function createRedisStore(client: RedisLikeClient, prefix = "ratelimit:"): RateLimitStore {
+	return {
+		async increment(key, amount, windowMs) {
+			const redisKey = prefix + key;
+			const count = await client.incrby(redisKey, amount);
+			let ttl = await client.pttl(redisKey);
+			// A fresh key has no expiry yet, this request opened the window
+			if (ttl < 0) {
+				await client.pexpire(redisKey, windowMs);
+				ttl = windowMs;
+			}
+			return { count, resetAt: Date.now() + ttl };
+		},
+	};
+}
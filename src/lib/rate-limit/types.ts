@@ -0,0 +1,14 @@
+// Counter for one key in its current fixed window
+export interface WindowState {
+	count: number;
+	// When the window closes, ms since the epoch
+	resetAt: number;
+}
+
+// Where rate-limit counters live. The in-memory store only sees its own
+// process, deployments with several instances should plug in a shared one.
+export interface RateLimitStore {
+	// Add `amount` to the key's counter, opening a `windowMs` window if none
+	// is open, and return the updated state. An amount of 0 just reads it.
+	increment(key: string, amount: number, windowMs: number): Promise<WindowState>;
+}
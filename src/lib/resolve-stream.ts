@@ -0,0 +1,22 @@
+import type { DownloadResult, StageEvent } from "@/lib/download-result";
+
+// Resolve a page through /api/resolve/events, reporting every stage the
+// server goes through. Rejects when the connection drops before the result.
+export function resolveWithStages(url: string, onStage: (event: StageEvent) => void): Promise<DownloadResult> {
+	return new Promise((resolve, reject) => {
+		const source = new EventSource(`/api/resolve/events?${new URLSearchParams({ url })}`);
+
+		source.addEventListener("stage", (event) => {
+			onStage(JSON.parse(event.data));
+		});
+		source.addEventListener("result", (event) => {
+			source.close();
+			resolve(JSON.parse(event.data));
+		});
+		// EventSource would reconnect and resolve again, once is enough
+		source.onerror = () => {
+			source.close();
+			reject(new Error("Lost connection to the server"));
+		};
+	});
+}
@@ -0,0 +1,90 @@
+import {
+	failure,
+	validateDownloadResult,
+	type CollectionPageResult,
+	type DownloadResult,
+} from "@/lib/download-result";
+import { DownloadError } from "@/lib/errors";
+import { ERROR_MESSAGES, findExtractor, getExtractors, type StageReporter } from "@/lib/extractors";
+import { consume, rateLimitMessage, type Budget, type RateLimitResult } from "@/lib/rate-limit";
+
+// Resolving a page, shared by the downloadContent action, the form's event
+// stream and the /api/v1 routes. Callers pass who the request is billed to,
+// and optionally a reporter for the stages it goes through.
+
+export interface ResolveOptions {
+	onStage?: StageReporter;
+	// Aborted when the caller no longer wants the result
+	signal?: AbortSignal;
+	// The budget this request was charged to, or the one that refused it,
+	// for RateLimit headers
+	onQuota?: (quota: RateLimitResult) => void;
+}
+
+// Spend one unit of a budget for the calling client, returning the failure
+// to send back once it is exhausted
+async function checkRateLimit(identity: string, budget: Budget, onQuota?: (quota: RateLimitResult) => void) {
+	const quota = await consume(identity, budget);
+	onQuota?.(quota);
+	return quota.allowed ? null : failure("RATE_LIMITED", rateLimitMessage(quota));
+}
+
+export async function resolveUrl(url: string, identity: string, { onStage, signal, onQuota }: ResolveOptions = {}): Promise<DownloadResult> {
+	try {
+		onStage?.({ stage: "validating" });
+		if (!url?.trim()) {
+			return failure("INVALID_URL", ERROR_MESSAGES.INVALID_URL);
+		}
+
+		const cleanUrl = url.trim();
+
+		const extractor = findExtractor(cleanUrl);
+		if (!extractor) {
+			return failure("UNSUPPORTED", ERROR_MESSAGES.UNSUPPORTED_PLATFORM);
+		}
+
+		const limited = await checkRateLimit(identity, "resolve", onQuota);
+		if (limited) return limited;
+
+		// Browser launches are charged by the extractor, so cache hits are free
+		const chargeBrowser = async () => {
+			const refused = await checkRateLimit(identity, "browser", (quota) => {
+				if (!quota.allowed) onQuota?.(quota);
+			});
+			if (refused) throw new DownloadError(refused.code, refused.message);
+		};
+		const result = await extractor.extract(cleanUrl, { onStage, signal, chargeBrowser: extractor.usesBrowser ? chargeBrowser : undefined });
+
+		// Extractors are pluggable, so check the contract before it reaches the form
+		const problems = validateDownloadResult(result);
+		if (problems.length > 0) {
+			console.error(`Extractor "${extractor.id}" returned an invalid result:`, problems);
+			return failure("INTERNAL", ERROR_MESSAGES.GENERIC_ERROR);
+		}
+
+		return result;
+	} catch (error) {
+		console.error("Error downloading content:", error);
+		return failure("INTERNAL", ERROR_MESSAGES.GENERIC_ERROR);
+	}
+}
+
+export async function resolveMoreEntries(source: string, cursor: string, identity: string, { signal, onQuota }: ResolveOptions = {}): Promise<CollectionPageResult> {
+	try {
+		const extractor = getExtractors().find((e) => e.id === source);
+		if (!extractor?.loadMore) {
+			return failure("UNSUPPORTED", ERROR_MESSAGES.UNSUPPORTED_PLATFORM);
+		}
+
+		const limited = await checkRateLimit(identity, "resolve", onQuota);
+		if (limited) return limited;
+
+		return await extractor.loadMore(cursor, signal);
+	} catch (error) {
+		console.error("Error loading more entries:", error);
+		if (error instanceof DownloadError) {
+			return failure(error.code, error.message);
+		}
+		return failure("INTERNAL", ERROR_MESSAGES.GENERIC_ERROR);
+	}
+}
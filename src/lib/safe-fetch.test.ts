@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { safeFetch, type SafeFetchLimits } from "@/lib/safe-fetch";
+
+// fetch() is replaced in each test, so nothing here reaches the network.
+// IP literals and localhost resolve without DNS.
+
+const LIMITS: SafeFetchLimits = {
+	contentTypes: ["video/"],
+	maxBytes: 1024,
+	hosts: ["1.1.1.1", "localhost", "127.0.0.1", "10.0.0.1", "169.254.169.254", "[::1]", "**.fbcdn.net"],
+};
+
+test("only https URLs on allowlisted hosts are fetched", async (t) => {
+	const fetch = t.mock.method(globalThis, "fetch", async () => new Response(null, { status: 204 }));
+
+	await assert.rejects(safeFetch("http://video.fbcdn.net/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	await assert.rejects(safeFetch("https://video.fbcdn.net:8443/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	await assert.rejects(safeFetch("https://evil.example.com/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	// The media CDNs when no hosts are given
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, { ...LIMITS, hosts: undefined }), { code: "FORBIDDEN_HOST" });
+	await assert.rejects(safeFetch("not a url", {}, LIMITS), { code: "INVALID_URL" });
+	assert.equal(fetch.mock.callCount(), 0);
+});
+
+test("allowlisted hosts with private addresses are refused", async (t) => {
+	const fetch = t.mock.method(globalThis, "fetch", async () => new Response(null, { status: 204 }));
+
+	for (const host of ["localhost", "127.0.0.1", "10.0.0.1", "169.254.169.254", "[::1]"]) {
+		await assert.rejects(safeFetch(`https://${host}/v.mp4`, {}, LIMITS), { code: "FORBIDDEN_HOST" }, host);
+	}
+	assert.equal(fetch.mock.callCount(), 0);
+});
+
+test("every redirect hop is checked", async (t) => {
+	let location = "";
+	const fetch = t.mock.method(globalThis, "fetch", async (input: URL) => {
+		if (input.hostname === "1.1.1.1") return new Response(null, { status: 302, headers: { location } });
+		return new Response("video", { headers: { "content-type": "video/mp4" } });
+	});
+
+	location = "https://127.0.0.1/v.mp4";
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	location = "https://evil.example.com/v.mp4";
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	location = "http://1.1.1.1/v.mp4";
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS), { code: "FORBIDDEN_HOST" });
+	// Only the first hop of each was fetched, and fetch never followed one itself
+	assert.equal(fetch.mock.callCount(), 3);
+	assert.ok(fetch.mock.calls.every((call) => (call.arguments[1] as RequestInit).redirect === "manual"));
+});
+
+test("responses of the wrong type or size are refused", async (t) => {
+	let response = () => new Response("<html>", { headers: { "content-type": "text/html" } });
+	t.mock.method(globalThis, "fetch", async () => response());
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS), { code: "UPSTREAM_HTTP" });
+
+	response = () => new Response("video", { headers: { "content-type": "video/mp4", "content-length": "2048" } });
+	await assert.rejects(safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS), { code: "TOO_LARGE" });
+
+	// Undeclared lengths are cut off while reading
+	response = () => new Response(new Uint8Array(2048), { headers: { "content-type": "video/mp4" } });
+	const limited = await safeFetch("https://1.1.1.1/v.mp4", {}, LIMITS);
+	await assert.rejects(limited.arrayBuffer(), { code: "TOO_LARGE" });
+});
@@ -0,0 +1,172 @@
+import { lookup } from "dns/promises";
+import type { RequestOptions } from "http";
+import { BlockList, isIP } from "net";
+import { DownloadError } from "@/lib/errors";
+import { isAllowedHost, isAllowedMediaHost } from "@/lib/media-hosts";
+
+// Addresses a proxied fetch must never reach: loopback, private, link-local,
+// carrier-grade NAT, multicast and other reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 3],
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 127],
+	["64:ff9b::", 96],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8],
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const MAX_REDIRECTS = 5;
+
+export interface SafeFetchLimits {
+	// Accepted Content-Type prefixes for successful responses
+	contentTypes: string[];
+	maxBytes: number;
+	// Host patterns as in MEDIA_HOSTS, the media CDNs when absent
+	hosts?: readonly string[];
+}
+
+// Limits for video, image and audio files fetched by /api/proxy
+export const MEDIA_LIMITS: SafeFetchLimits = {
+	contentTypes: ["video/", "image/", "audio/", "application/octet-stream"],
+	maxBytes: Number(process.env.PROXY_MAX_BYTES) || 2 * 1024 * 1024 * 1024,
+};
+
+function isBlockedAddress(address: string) {
+	// IPv4-mapped IPv6 addresses are checked as IPv4
+	const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+	if (mapped) return BLOCKED_ADDRESSES.check(mapped, "ipv4");
+	return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// The host's addresses, throwing FORBIDDEN_HOST when any is private
+async function publicAddresses(hostname: string) {
+	// IPv6 literals keep their brackets in URL.hostname
+	const name = hostname.replace(/^\[(.*)\]$/, "$1");
+	let addresses;
+	try {
+		addresses = await lookup(name, { all: true });
+	} catch (error) {
+		throw new DownloadError("UPSTREAM_HTTP", `Could not resolve ${hostname}.`, { cause: error });
+	}
+	if (addresses.some(({ address }) => isBlockedAddress(address))) {
+		throw new DownloadError("FORBIDDEN_HOST", `${hostname} resolves to a private address.`);
+	}
+	return addresses;
+}
+
+export async function assertPublicHost(hostname: string) {
+	await publicAddresses(hostname);
+}
+
+// `lookup` for http(s).request that only hands out checked public
+// addresses, so the socket connects to the address that was checked and a
+// rebinding DNS answer can't swap in a private one. Node skips lookup for
+// IP literals, check those with assertPublicHost first.
+export const publicLookup: NonNullable<RequestOptions["lookup"]> = (hostname, options, callback) => {
+	publicAddresses(hostname).then(
+		(addresses) => {
+			const family = options.family === 6 || options.family === "IPv6" ? 6 : options.family === 4 || options.family === "IPv4" ? 4 : 0;
+			const matching = family ? addresses.filter((address) => address.family === family) : addresses;
+			if (options.all) {
+				callback(null, matching);
+			} else if (matching[0]) {
+				callback(null, matching[0].address, matching[0].family);
+			} else {
+				callback(Object.assign(new Error(`No IPv${family} address for ${hostname}`), { code: "ENOTFOUND" }), "");
+			}
+		},
+		(error) => callback(error, "")
+	);
+};
+
+// Refuse anything but https on an allowlisted host that resolves to public
+// addresses. fetch() resolves the name again, so the allowlist stays the
+// main guard against DNS rebinding.
+async function assertSafeUrl(url: URL, hosts?: readonly string[]) {
+	const allowed = hosts ? isAllowedHost(url.hostname, hosts) : isAllowedMediaHost(url.hostname);
+	if (url.protocol !== "https:" || url.port || !allowed) {
+		throw new DownloadError("FORBIDDEN_HOST", `Fetching from ${url.hostname || "this URL"} is not allowed.`);
+	}
+	await assertPublicHost(url.hostname);
+}
+
+// Error the body once more than maxBytes have passed through, for
+// responses that don't declare their length
+function limitBody(body: ReadableStream<Uint8Array>, maxBytes: number) {
+	let received = 0;
+	return body.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				received += chunk.byteLength;
+				if (received > maxBytes) {
+					controller.error(new DownloadError("TOO_LARGE", "The file is larger than this server allows."));
+					return;
+				}
+				controller.enqueue(chunk);
+			},
+		})
+	);
+}
+
+// fetch() for URLs that came from a client. Only allowlisted hosts are
+// reached (the CDNs unless `limits.hosts` says otherwise), every redirect
+// hop is re-checked, and successful responses must
+// match the expected content types and size.
+export async function safeFetch(input: string, init: RequestInit, limits: SafeFetchLimits): Promise<Response> {
+	let url: URL;
+	try {
+		url = new URL(input);
+	} catch {
+		throw new DownloadError("INVALID_URL", "Invalid media URL");
+	}
+
+	for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+		await assertSafeUrl(url, limits.hosts);
+		const response = await fetch(url, { ...init, redirect: "manual" });
+
+		const location = response.headers.get("location");
+		if (response.status >= 300 && response.status < 400 && location) {
+			await response.body?.cancel();
+			url = new URL(location, url);
+			continue;
+		}
+
+		if (!response.ok || !response.body) return response;
+
+		const contentType = response.headers.get("content-type") ?? "";
+		if (!limits.contentTypes.some((prefix) => contentType.startsWith(prefix))) {
+			await response.body.cancel();
+			throw new DownloadError("UPSTREAM_HTTP", `Unexpected content type ${contentType || "(none)"} from ${url.hostname}.`);
+		}
+
+		const contentLength = Number(response.headers.get("content-length"));
+		if (contentLength > limits.maxBytes) {
+			await response.body.cancel();
+			throw new DownloadError("TOO_LARGE", "The file is larger than this server allows.");
+		}
+
+		return new Response(limitBody(response.body, limits.maxBytes), {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	}
+
+	throw new DownloadError("UPSTREAM_HTTP", "Too many redirects");
+}
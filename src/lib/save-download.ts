@@ -0,0 +1,195 @@
+import type { ProxyErrorBody, ZipRequestBody } from "@/lib/download-result";
+import { DownloadError, ERROR_HELP, isErrorCode } from "@/lib/errors";
+import { parseFilename } from "@/lib/filename";
+
+export interface DownloadProgress {
+	received: number;
+	// From Content-Length, absent when the proxy can't know the size upfront
+	total?: number;
+	bytesPerSecond: number;
+}
+
+export interface SaveOptions {
+	signal?: AbortSignal;
+	// Only callers that show progress get the streamed save, everyone else
+	// hands the file to the browser's download manager
+	onProgress?: (progress: DownloadProgress) => void;
+}
+
+// "stream" when the file was written to disk here, "browser" when the
+// browser's own download manager took over
+export type SaveMethod = "stream" | "browser";
+
+// Chromium's File System Access API, not yet in every lib.dom
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+const PROGRESS_INTERVAL_MS = 250;
+// Speed is averaged over this window so the ETA doesn't jump around
+const SPEED_WINDOW_MS = 3000;
+
+function getSaveFilePicker() {
+	return (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+}
+
+async function responseError(response: Response) {
+	const contentType = response.headers.get("content-type");
+	if (contentType?.includes("application/json")) {
+		const errorData: ProxyErrorBody = await response.json();
+		return new DownloadError(errorData.code, errorData.error || "Download failed");
+	}
+	return new Error(`Download failed: ${response.statusText}`);
+}
+
+// Proxy links expire, callers resolve the page again and retry on this
+export function isExpiredLink(error: unknown) {
+	return error instanceof DownloadError && error.code === "LINK_EXPIRED";
+}
+
+function filenameFor(response: Response, fallbackName: string) {
+	const filename = parseFilename(response.headers.get("content-disposition"));
+	if (filename) return decodeURIComponent(filename);
+
+	const contentType = response.headers.get("content-type");
+	const extension = contentType?.includes("video") ? ".mp4" : ".jpg";
+	return (fallbackName || "download").replace(/[^a-z0-9]/gi, "-") + extension;
+}
+
+// Count bytes as they pass through, reporting a few times a second
+export function progressStream(total: number | undefined, onProgress: (progress: DownloadProgress) => void) {
+	let received = 0;
+	let lastReport = 0;
+	const samples: { time: number; received: number }[] = [{ time: Date.now(), received: 0 }];
+
+	const report = () => {
+		const now = Date.now();
+		samples.push({ time: now, received });
+		while (samples.length > 2 && now - samples[0].time > SPEED_WINDOW_MS) samples.shift();
+
+		const elapsed = (now - samples[0].time) / 1000;
+		const bytesPerSecond = elapsed > 0 ? (received - samples[0].received) / elapsed : 0;
+		onProgress({ received, total, bytesPerSecond });
+		lastReport = now;
+	};
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		transform(chunk, controller) {
+			received += chunk.byteLength;
+			controller.enqueue(chunk);
+			if (Date.now() - lastReport >= PROGRESS_INTERVAL_MS) report();
+		},
+		flush: report,
+	});
+}
+
+// Write the response straight to a file the user picks, so large videos
+// never sit in tab memory. Returns false if the picker can't be shown.
+async function streamToDisk(response: Response, filename: string, options: SaveOptions) {
+	const showSaveFilePicker = getSaveFilePicker();
+	if (!showSaveFilePicker || !response.body || !options.onProgress) return false;
+
+	let handle: FileSystemFileHandle;
+	try {
+		handle = await showSaveFilePicker({ suggestedName: filename });
+	} catch (error) {
+		// The picker needs a recent click, a slow upstream can outlast it
+		if (error instanceof DOMException && error.name === "SecurityError") return false;
+		throw error;
+	}
+
+	const contentLength = Number(response.headers.get("content-length"));
+	const total = contentLength > 0 ? contentLength : undefined;
+
+	// pipeTo aborts the writable on failure or cancel, discarding the partial file
+	await response.body
+		.pipeThrough(progressStream(total, options.onProgress))
+		.pipeTo(await handle.createWritable(), { signal: options.signal });
+	return true;
+}
+
+function clickLink(href: string, filename = "") {
+	const link = document.createElement("a");
+	link.href = href;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+}
+
+// Save a file built in the browser, such as a metadata sidecar
+export function saveFile(content: string, filename: string, type: string) {
+	const href = URL.createObjectURL(new Blob([content], { type }));
+	clickLink(href, filename);
+	// The download has taken its copy once the click is handled
+	setTimeout(() => URL.revokeObjectURL(href));
+}
+
+// A HEAD check of a proxy link carries its error in headers
+function checkError(response: Response) {
+	const code = response.headers.get("x-error-code");
+	const message = response.headers.get("x-error-message");
+	if (isErrorCode(code)) {
+		return new DownloadError(code, message ? decodeURIComponent(message) : ERROR_HELP[code]);
+	}
+	return new Error(`Download failed: ${response.statusText}`);
+}
+
+// Fetch a proxy link and save it to disk, streaming where the browser allows.
+// Throws a DownloadError with the proxy's code and message when the download
+// fails, and an AbortError when it is cancelled.
+export async function saveDownload(downloadUrl: string, fallbackName: string, options: SaveOptions = {}): Promise<SaveMethod> {
+	if (getSaveFilePicker() && options.onProgress) {
+		const response = await fetch(downloadUrl, { signal: options.signal });
+		if (!response.ok) {
+			throw await responseError(response);
+		}
+		if (await streamToDisk(response, filenameFor(response, fallbackName), options)) {
+			return "stream";
+		}
+		// The picker timed out, the download manager takes over below
+		await response.body?.cancel();
+	}
+
+	// HEAD checks the link and budget without fetching upstream, so the
+	// browser's own download is the only one
+	const check = await fetch(downloadUrl, { method: "HEAD", signal: options.signal });
+	if (!check.ok) {
+		throw checkError(check);
+	}
+	clickLink(downloadUrl);
+	return "browser";
+}
+
+// Bundle several proxy links into one archive via /api/zip
+export async function saveZip(request: ZipRequestBody, options: SaveOptions = {}): Promise<SaveMethod> {
+	if (getSaveFilePicker() && options.onProgress) {
+		const response = await fetch("/api/zip", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(request),
+			signal: options.signal,
+		});
+
+		if (!response.ok) {
+			throw await responseError(response);
+		}
+		if (await streamToDisk(response, filenameFor(response, request.name || "downloads"), options)) {
+			return "stream";
+		}
+		await response.body?.cancel();
+	}
+
+	// A plain form post lets the browser's download manager take the archive
+	const form = document.createElement("form");
+	form.method = "POST";
+	form.action = "/api/zip";
+	form.hidden = true;
+	const payload = document.createElement("input");
+	payload.type = "hidden";
+	payload.name = "payload";
+	payload.value = JSON.stringify(request);
+	form.appendChild(payload);
+	document.body.appendChild(form);
+	form.submit();
+	document.body.removeChild(form);
+	return "browser";
+}
@@ -0,0 +1,50 @@
+// Server-Sent Events responses. `run` sends events until it returns, then
+// the stream closes. The signal it is given aborts when the client goes
+// away, whether the request's `signal` reports it or the stream is cancelled.
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEPALIVE_MS = 15 * 1000;
+
+export function eventStream(signal: AbortSignal, run: (send: SendEvent, signal: AbortSignal) => Promise<void>): Response {
+	const encoder = new TextEncoder();
+	const disconnected = new AbortController();
+	const disconnect = () => disconnected.abort();
+	let cancelled = false;
+	if (signal.aborted) disconnect();
+	else signal.addEventListener("abort", disconnect, { once: true });
+
+	const body = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const write = (text: string) => {
+				if (!disconnected.signal.aborted) controller.enqueue(encoder.encode(text));
+			};
+			const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+
+			try {
+				await run((event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`), disconnected.signal);
+			} catch (error) {
+				if (!disconnected.signal.aborted) console.error("Event stream error:", error);
+			} finally {
+				clearInterval(keepalive);
+				signal.removeEventListener("abort", disconnect);
+				// A cancelled stream can't be closed
+				if (!cancelled) controller.close();
+			}
+		},
+		cancel() {
+			cancelled = true;
+			disconnect();
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream; charset=utf-8",
+			"Cache-Control": "no-cache, no-transform",
+			// Disable response buffering in nginx
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { SUBTITLE_FORMATS, type SubtitleFormat } from "@/lib/download-result";
+import { errorResponse } from "@/lib/error-response";
+import { DownloadError } from "@/lib/errors";
+import { findExtractor, type StreamRequest, type SubtitleCue } from "@/lib/extractors";
+import { generateFilename } from "@/lib/filename";
+
+const OUTPUTS: Record<SubtitleFormat, { contentType: string; render: (cues: SubtitleCue[]) => string }> = {
+	srt: { contentType: "application/x-subrip; charset=utf-8", render: toSrt },
+	vtt: { contentType: "text/vtt; charset=utf-8", render: toVtt },
+};
+
+function parseSubtitleFormat(value: string | null): SubtitleFormat {
+	return SUBTITLE_FORMATS.find((f) => f === value) || "srt";
+}
+
+// "00:01:02,345" (SRT) or "00:01:02.345" (WebVTT)
+function timestamp(ms: number, separator: string) {
+	const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+	const total = Math.max(0, Math.round(ms));
+	const hours = Math.floor(total / 3600000);
+	const minutes = Math.floor(total / 60000) % 60;
+	const seconds = Math.floor(total / 1000) % 60;
+	return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]) {
+	return cues
+		.map((cue, i) => `${i + 1}\n${timestamp(cue.startMs, ",")} --> ${timestamp(cue.endMs, ",")}\n${cue.text}\n`)
+		.join("\n");
+}
+
+// Cue text is markup in WebVTT, so `&` and `<` must be escaped
+export function toVtt(cues: SubtitleCue[]) {
+	const body = cues.map((cue) => {
+		const text = cue.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/-->/g, "--&gt;");
+		return `${timestamp(cue.startMs, ".")} --> ${timestamp(cue.endMs, ".")}\n${text}\n`;
+	});
+	return ["WEBVTT\n", ...body].join("\n");
+}
+
+// Serve a caption track as SRT or WebVTT (type=subtitles in /api/proxy).
+// The source extractor loads the cues, the `format` param picks the output.
+export async function streamSubtitles(request: StreamRequest): Promise<Response> {
+	const extractor = findExtractor(request.url);
+	if (!extractor?.openSubtitles) {
+		return errorResponse("UNSUPPORTED", "Subtitles are not available for this URL");
+	}
+
+	const format = parseSubtitleFormat(request.searchParams.get("format"));
+	const output = OUTPUTS[format];
+
+	try {
+		const source = await extractor.openSubtitles(request);
+		const language = source.language.replace(/[^a-z0-9-]/gi, "");
+
+		return new NextResponse(output.render(source.cues), {
+			headers: {
+				"Content-Type": output.contentType,
+				"Content-Disposition": generateFilename(source.title, `.${language}.${format}`),
+				"Cache-Control": "no-cache",
+				...(source.cache ? { "X-Cache": source.cache.toUpperCase() } : {}),
+			},
+		});
+	} catch (error) {
+		console.error(`${extractor.name} subtitles error:`, error);
+		if (error instanceof DownloadError) {
+			return errorResponse(error.code, error.message);
+		}
+		return errorResponse("INTERNAL", "Failed to download subtitles");
+	}
+}
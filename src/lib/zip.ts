@@ -0,0 +1,183 @@
+// Minimal streaming ZIP writer. Entries are stored uncompressed (media is
+// already compressed) and sizes/CRCs go in data descriptors, so each entry
+// can be written while its source is still downloading. No ZIP64, so the
+// archive must stay under 4 GiB.
+
+// Keep archives well inside the function limits in vercel.json
+export const ZIP_MAX_ITEMS = 50;
+export const ZIP_MAX_BYTES = Number(process.env.ZIP_MAX_BYTES) || 500 * 1024 * 1024;
+
+export interface ZipEntry {
+	name: string;
+	body: ReadableStream<Uint8Array>;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function updateCrc(crc: number, chunk: Uint8Array) {
+	let c = crc ^ 0xffffffff;
+	for (let i = 0; i < chunk.length; i++) {
+		c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+	const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+	const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+	return { time, day };
+}
+
+// Data descriptor present (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808;
+
+function localHeader(name: Uint8Array, time: number, day: number) {
+	const header = new DataView(new ArrayBuffer(30));
+	header.setUint32(0, 0x04034b50, true);
+	header.setUint16(4, 20, true);
+	header.setUint16(6, FLAGS, true);
+	header.setUint16(8, 0, true);
+	header.setUint16(10, time, true);
+	header.setUint16(12, day, true);
+	header.setUint16(26, name.length, true);
+	return concat(new Uint8Array(header.buffer), name);
+}
+
+function dataDescriptor(crc: number, size: number) {
+	const descriptor = new DataView(new ArrayBuffer(16));
+	descriptor.setUint32(0, 0x08074b50, true);
+	descriptor.setUint32(4, crc, true);
+	descriptor.setUint32(8, size, true);
+	descriptor.setUint32(12, size, true);
+	return new Uint8Array(descriptor.buffer);
+}
+
+interface CentralRecord {
+	name: Uint8Array;
+	crc: number;
+	size: number;
+	offset: number;
+	time: number;
+	day: number;
+}
+
+function centralHeader(record: CentralRecord) {
+	const header = new DataView(new ArrayBuffer(46));
+	header.setUint32(0, 0x02014b50, true);
+	header.setUint16(4, 20, true);
+	header.setUint16(6, 20, true);
+	header.setUint16(8, FLAGS, true);
+	header.setUint16(10, 0, true);
+	header.setUint16(12, record.time, true);
+	header.setUint16(14, record.day, true);
+	header.setUint32(16, record.crc, true);
+	header.setUint32(20, record.size, true);
+	header.setUint32(24, record.size, true);
+	header.setUint16(28, record.name.length, true);
+	header.setUint32(42, record.offset, true);
+	return concat(new Uint8Array(header.buffer), record.name);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number) {
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, count, true);
+	end.setUint16(10, count, true);
+	end.setUint32(12, size, true);
+	end.setUint32(16, offset, true);
+	return new Uint8Array(end.buffer);
+}
+
+function concat(...parts: Uint8Array[]) {
+	const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipEntry>, maxBytes: number): AsyncGenerator<Uint8Array> {
+	const encoder = new TextEncoder();
+	const records: CentralRecord[] = [];
+	let offset = 0;
+
+	for await (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const { time, day } = dosDateTime(new Date());
+		const header = localHeader(name, time, day);
+		const record: CentralRecord = { name, crc: 0, size: 0, offset, time, day };
+
+		yield header;
+		offset += header.length;
+
+		const reader = entry.body.getReader();
+		let finished = false;
+		try {
+			while (true) {
+				const { value, done } = await reader.read();
+				if (done) {
+					finished = true;
+					break;
+				}
+				record.crc = updateCrc(record.crc, value);
+				record.size += value.length;
+				offset += value.length;
+				if (offset > maxBytes) {
+					throw new Error(`Archive exceeds the ${maxBytes} byte limit`);
+				}
+				yield value;
+			}
+		} finally {
+			// Stop the upstream download if the archive was aborted midway
+			if (!finished) await reader.cancel().catch(() => {});
+			reader.releaseLock();
+		}
+
+		const descriptor = dataDescriptor(record.crc, record.size);
+		yield descriptor;
+		offset += descriptor.length;
+		records.push(record);
+	}
+
+	const centralOffset = offset;
+	let centralSize = 0;
+	for (const record of records) {
+		const header = centralHeader(record);
+		centralSize += header.length;
+		yield header;
+	}
+	yield endOfCentralDirectory(records.length, centralSize, centralOffset);
+}
+
+// Stream a ZIP archive of the given entries. The stream errors if the
+// archive grows past maxBytes, since the headers are already sent by then.
+export function createZipStream(entries: AsyncIterable<ZipEntry>, maxBytes: number): ReadableStream<Uint8Array> {
+	const chunks = zipChunks(entries, Math.min(maxBytes, 0xffffffff));
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { value, done } = await chunks.next();
+				if (done) controller.close();
+				else controller.enqueue(value);
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+		async cancel() {
+			await chunks.return(undefined);
+		},
+	});
+}